@@ -1,219 +1,531 @@
 
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { createPortal } from 'react-dom';
 import { 
   Square as SquareIcon, Trash2, Maximize2, Camera, Sparkles, Plus, 
   Circle as CircleIcon, Monitor, PanelRightClose, Grid3X3, Settings2, 
   Cast, X, Expand, RotateCcw, Check, FolderOpen, Menu, Eye, 
-  MonitorOff, EyeOff, Box, MonitorPlay, Upload, Crop, Maximize, Zap, Bot, Loader2, Clock, Download
+  MonitorOff, EyeOff, Box, MonitorPlay, Upload, Crop, Maximize, Zap, Bot, Loader2, Clock, Download,
+  Undo2, Redo2, AudioLines, Piano, Network, ScanLine, WandSparkles, Layers, Group, Ungroup
 } from 'lucide-react';
 import { generateMappingAssistant } from './services/geminiService.ts';
+import { openProjectorChannel, openProjectorWindow, isProjectorView, ProjectorMessage, ProjectorState } from './services/projectorSync.ts';
+import { exportProjectBundle, importProjectBundle, BUNDLE_EXTENSION } from './services/projectBundle.ts';
+import { loadWorkspace, saveWorkspace, createProject, duplicateProject, persistedShapeLists, Workspace } from './services/projectStore.ts';
+import { garbageCollectAssets } from './services/assetStore.ts';
+import { setAudioSource, AudioSourceConfig } from './services/audioEngine.ts';
+import { subscribeMidi, startMidi, matchesTrigger, MidiEvent } from './services/midi.ts';
+import { connectRemote, handleRemoteMessage, layoutMessage, isRemoteView, loadRemoteSettings, saveRemoteSettings, RemoteMessage, RemoteSettings, RemoteStatus } from './services/remoteControl.ts';
+import { Shape, Point, ShapeType, ShapeStyle, EditorMode, EffectType, FillType, MappingMode, ProjectVersion, Project, EllipseGeometry, OutputRegion, Keystone, Guide, Cue, Transport, TempoClock, MidiMapping, MidiTarget, CalibrationPattern, CalibrationMap } from './types.ts';
+import { ellipseToPoints, translateShape, moveAttachedControls } from './utils/geometry.ts';
+import { DEFAULT_KEYSTONE } from './utils/keystone.ts';
+import { DEFAULT_SNAP, SnapSettings } from './utils/snapping.ts';
+import { applyValue } from './utils/keyframes.ts';
+import { DEFAULT_TEMPO } from './utils/tempo.ts';
+import { useHistory } from './hooks/useHistory.ts';
+import Canvas from './components/Canvas.tsx';
+import PropertyPanel from './components/PropertyPanel.tsx';
+import ProjectManager from './components/ProjectManager.tsx';
+import ProjectBrowser from './components/ProjectBrowser.tsx';
+import ProjectorOutput from './components/ProjectorOutput.tsx';
+import OutputPanel from './components/OutputPanel.tsx';
+import CuePanel from './components/CuePanel.tsx';
+import AudioPanel from './components/AudioPanel.tsx';
+import TempoControl from './components/TempoControl.tsx';
+import AnimationPanel from './components/AnimationPanel.tsx';
+import MidiPanel from './components/MidiPanel.tsx';
+import RemotePanel from './components/RemotePanel.tsx';
+import RemoteView from './components/RemoteView.tsx';
+import CalibrationPanel from './components/CalibrationPanel.tsx';
+import CalibrationTracer from './components/CalibrationTracer.tsx';
+import DetectionPanel from './components/DetectionPanel.tsx';
+import SnapControl from './components/SnapControl.tsx';
+import LayerList from './components/LayerList.tsx';
 
-// --- TYPES ---
-export type Point = { x: number; y: number; };
-export enum EffectType { NONE = 'none', STROBE = 'strobe', BREATHE = 'breathe', RAINBOW = 'rainbow' }
-export enum FillType { SOLID = 'solid', CHECKERBOARD = 'checkerboard', GRID = 'grid', VIDEO = 'video', IMAGE = 'image' }
-export enum MappingMode { MASK = 'mask', STRETCH = 'stretch' }
-export type ShapeType = 'polygon' | 'circle' | 'square';
-export type EditorMode = 'IDLE' | 'DRAWING' | 'EDITING' | 'PROJECTING';
-
-export interface ShapeStyle {
-  color: string;
-  opacity: number;
-  strokeColor: string;
-  strokeWidth: number;
-  effect: EffectType;
-  effectSpeed: number;
-  fillType: FillType;
-  mappingMode: MappingMode;
-  videoSrc?: string;
-  imageSrc?: string;
-}
-
-export interface Shape {
-  id: string;
-  name: string;
-  type: ShapeType;
-  points: Point[];
-  visible: boolean;
-  isClosed: boolean;
-  style: ShapeStyle;
-}
-
-export interface ProjectVersion {
-  id: string;
-  name: string;
-  timestamp: number;
-  shapes: Shape[];
-}
-
-// --- SUB-COMPONENTS ---
-
-const Canvas: React.FC<{
-  shapes: Shape[];
-  selectedShapeId: string | null;
-  mode: EditorMode;
-  showCamera: boolean;
-  globalTestPattern: boolean;
-  isProjector?: boolean;
-  currentDrawingPoints: Point[];
-  onPointsUpdate: (points: Point[], isClosed: boolean) => void;
-  onSelectShape: (id: string | null) => void;
-  onDrawingUpdate: (points: Point[]) => void;
-}> = ({ shapes, selectedShapeId, mode, showCamera, globalTestPattern, isProjector, currentDrawingPoints, onPointsUpdate, onSelectShape, onDrawingUpdate }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const [dragInfo, setDragInfo] = useState<{ shapeId: string; pointIndex: number } | null>(null);
+// --- MAIN APP ---
+
+// Arrow-key nudge distances in stage fractions: Alt for fine, Shift for coarse
+const NUDGE_FINE = 0.0001;
+const NUDGE_STEP = 0.001;
+const NUDGE_COARSE = 0.01;
+const ARROW_DIRECTIONS: Record<string, Point> = { ArrowLeft: { x: -1, y: 0 }, ArrowRight: { x: 1, y: 0 }, ArrowUp: { x: 0, y: -1 }, ArrowDown: { x: 0, y: 1 } };
+
+// Saving serializes every project and snapshot, so it waits for a pause in editing
+const SAVE_DELAY_MS = 500;
+
+// MIDI and remote streams have no release to seal on, so each closes its undo entry after this long quiet
+const STREAM_IDLE_MS = 1000;
+
+const CONTINUOUS_STYLE_KEYS: (keyof ShapeStyle)[] = ['color', 'opacity', 'effectSpeed', 'feather', 'strokeColor', 'strokeWidth', 'strokeGlow', 'strokeSpeed', 'audioGain'];
+
+const Editor: React.FC = () => {
+  const history = useHistory<Shape[]>([]);
+  const shapes = history.present;
+  const [selectedShapeIds, setSelectedShapeIds] = useState<string[]>([]);
+  // Point editing, the properties panel and the surface HUD work on a lone selection
+  const selectedShapeId = selectedShapeIds.length === 1 ? selectedShapeIds[0] : null;
+  const setSelectedShapeId = (id: string | null) => setSelectedShapeIds(id ? [id] : []);
+  const [selectedVertices, setSelectedVertices] = useState<number[]>([]);
+  const [snap, setSnap] = useState<SnapSettings>(DEFAULT_SNAP);
+  const [showRulers, setShowRulers] = useState(true);
+  const [mode, setMode] = useState<EditorMode>('IDLE');
+  const [showCamera, setShowCamera] = useState(false);
+  const [showAI, setShowAI] = useState(false);
+  const [showLayers, setShowLayers] = useState(false);
+  const [zenMode, setZenMode] = useState(false);
+  const [drawingPoints, setDrawingPoints] = useState<Point[]>([]);
+  const [uiVisible, setUiVisible] = useState(true);
+  const [showProperties, setShowProperties] = useState(false);
+  const [leftPanel, setLeftPanel] = useState<'projects' | 'outputs' | 'cues' | 'audio' | 'midi' | 'remote' | 'calibration' | 'detection' | null>(null);
+  const [transport, setTransport] = useState<Transport | null>(null);
+  const [audioInput, setAudioInput] = useState<string | null>(null);
+  const [tempo, setTempo] = useState<TempoClock>(() => ({ ...DEFAULT_TEMPO, anchor: Date.now() }));
+  const [master, setMaster] = useState(1);
+  const [midiInputs, setMidiInputs] = useState<string[] | null>(null);
+  const [midiLearn, setMidiLearn] = useState<MidiTarget | null>(null);
+  const [lastMidi, setLastMidi] = useState<MidiEvent | null>(null);
+  const [remoteSettings, setRemoteSettings] = useState<RemoteSettings>(loadRemoteSettings);
+  const [remoteStatus, setRemoteStatus] = useState<RemoteStatus>('closed');
+  const [remoteLog, setRemoteLog] = useState<RemoteMessage[]>([]);
+  const [calibration, setCalibration] = useState<CalibrationMap | null>(null);
+  const [tracing, setTracing] = useState(false);
+  const [proposals, setProposals] = useState<{ points: Point[]; active: boolean }[] | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [workspaceLoaded, setWorkspaceLoaded] = useState(false);
+  const projectorChannel = useRef<BroadcastChannel | null>(null);
+  const projectorState = useRef<ProjectorState>({ shapes, outputs: [], keystone: null, keystoneSetup: false, cues: [], transport: null, audio: null, tempo, master });
+  const midiHandler = useRef<(event: MidiEvent) => void>(() => {});
+  const midiHeld = useRef(new Set<string>());
+  const remote = useRef<ReturnType<typeof connectRemote> | null>(null);
+  const remoteHandler = useRef<(message: RemoteMessage) => void>(() => {});
+  const streamTimers = useRef(new Map<string, number>());
+  const pendingSave = useRef<Workspace | null>(null);
+  const saveFailed = useRef(false);
 
+  // Projector output sync: answer state requests from (re)loaded output windows
   useEffect(() => {
-    if (showCamera && navigator.mediaDevices.getUserMedia) {
-      navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
-        .then(stream => { if (videoRef.current) videoRef.current.srcObject = stream; })
-        .catch(err => console.error("Camera error:", err));
-    }
-  }, [showCamera]);
-
-  const getCanvasCoords = (e: any): Point => {
-    const canvas = canvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
-    const rect = canvas.getBoundingClientRect();
-    const clientX = e.touches ? e.touches[0].clientX : e.clientX;
-    const clientY = e.touches ? e.touches[0].clientY : e.clientY;
-    return { x: (clientX - rect.left) / rect.width, y: (clientY - rect.top) / rect.height };
-  };
-
-  const handleStart = (e: any) => {
-    if (isProjector || mode === 'PROJECTING') return;
-    const pos = getCanvasCoords(e);
-    if (mode === 'DRAWING') {
-      const newPoints = [...currentDrawingPoints, pos];
-      if (newPoints.length > 2 && Math.hypot(pos.x - newPoints[0].x, pos.y - newPoints[0].y) < 0.04) {
-        onPointsUpdate(currentDrawingPoints, true);
-      } else {
-        onDrawingUpdate(newPoints);
-      }
-      return;
-    }
-    if (mode === 'EDITING' && selectedShapeId) {
-      const shape = shapes.find(s => s.id === selectedShapeId);
-      if (shape) {
-        const idx = shape.points.findIndex(p => Math.hypot(p.x - pos.x, p.y - pos.y) < 0.04);
-        if (idx !== -1) { setDragInfo({ shapeId: selectedShapeId, pointIndex: idx }); return; }
+    const channel = openProjectorChannel();
+    channel.onmessage = (e: MessageEvent<ProjectorMessage>) => {
+      if (e.data.type === 'request-state') {
+        channel.postMessage({ type: 'state', state: projectorState.current } as ProjectorMessage);
+      } else if (e.data.type === 'transport') {
+        setTransport(e.data.transport);
       }
+    };
+    projectorChannel.current = channel;
+    return () => { channel.close(); projectorChannel.current = null; };
+  }, []);
+
+  // MIDI: one subscription for the editor's lifetime; the handler is refreshed every render
+  useEffect(() => subscribeMidi(event => midiHandler.current(event)), []);
+
+  // Remote control: stays connected (retrying while the relay is down) for as long as it is enabled
+  useEffect(() => {
+    saveRemoteSettings(remoteSettings);
+    if (!remoteSettings.enabled) return;
+    const connection = connectRemote(remoteSettings.url, message => remoteHandler.current(message), setRemoteStatus);
+    remote.current = connection;
+    return () => { connection.close(); remote.current = null; };
+  }, [remoteSettings.enabled, remoteSettings.url]);
+
+  // Keep remote thumbnails (phone view) in step with every edit
+  useEffect(() => {
+    if (remoteStatus === 'open') remote.current?.send(layoutMessage(shapes));
+  }, [shapes, remoteStatus]);
+
+  // Workspace persistence: restore the last-opened project on startup
+  useEffect(() => {
+    loadWorkspace().then(workspace => {
+      const active = workspace.projects.find(p => p.id === workspace.lastProjectId) || workspace.projects[0];
+      setProjects(workspace.projects);
+      setActiveProjectId(active.id);
+      history.reset(active.shapes);
+      setWorkspaceLoaded(true);
+      return garbageCollectAssets(persistedShapeLists());
+    }).catch(err => console.error("Workspace load error:", err));
+  }, []);
+
+  // The active project's shapes live in the undo history until the user switches away
+  const workspaceProjects = projects.map(p => p.id === activeProjectId ? { ...p, shapes } : p);
+  const activeProject = workspaceProjects.find(p => p.id === activeProjectId);
+  const versions = activeProject?.versions ?? [];
+  const projectName = activeProject?.name ?? '';
+  const outputs = activeProject?.outputs ?? [];
+  const keystone = activeProject?.keystone ?? DEFAULT_KEYSTONE;
+  const guides = activeProject?.guides ?? [];
+  const cues = activeProject?.cues ?? [];
+  const midiMappings = activeProject?.midiMappings ?? [];
+  // Audio input: the microphone or a video surface, which plays aloud unless muted
+  const audioShape = shapes.find(s => s.id === audioInput);
+  const audio: AudioSourceConfig | null = audioInput === 'microphone' ? { kind: 'microphone' }
+    : audioShape ? { kind: 'shape', shapeId: audioShape.id, muted: audioShape.style.videoMuted !== false }
+    : null;
+  projectorState.current = { shapes, outputs, keystone: activeProject?.keystone ?? null, keystoneSetup: mode === 'KEYSTONE', cues, transport, audio, tempo, master };
+
+  useEffect(() => {
+    setAudioSource(audio).catch(err => { console.error("Audio source error:", err); alert("Audio Error: " + err.message); setAudioInput(null); });
+  }, [audio?.kind, audioShape?.id, audioShape?.style.videoMuted, audioShape?.style.videoSrc]);
+
+  useEffect(() => {
+    projectorChannel.current?.postMessage({ type: 'state', state: projectorState.current } as ProjectorMessage);
+  }, [shapes, activeProject?.outputs, activeProject?.keystone, mode === 'KEYSTONE', activeProject?.cues, audio?.kind, audioShape?.id, tempo, master]);
+
+  // Writes the latest unsaved workspace; a full store is reported once, not on every edit
+  const flushSave = () => {
+    const workspace = pendingSave.current;
+    if (!workspace) return;
+    pendingSave.current = null;
+    try {
+      saveWorkspace(workspace);
+      saveFailed.current = false;
+    } catch (e: any) {
+      console.error("Workspace save error:", e);
+      if (!saveFailed.current) alert(e?.name === 'QuotaExceededError'
+        ? "Save Error: browser storage is full. Delete old snapshots or projects, or export a bundle, to keep saving."
+        : "Save Error: " + e.message);
+      saveFailed.current = true;
     }
-    const hit = [...shapes].reverse().find(s => s.visible); // Simplification for hitting shapes
-    onSelectShape(hit ? hit.id : null);
-  };
-
-  const handleMove = (e: any) => {
-    if (dragInfo) {
-      const pos = getCanvasCoords(e);
-      const shape = shapes.find(s => s.id === dragInfo.shapeId);
-      if (shape) {
-        const pts = [...shape.points];
-        pts[dragInfo.pointIndex] = pos;
-        onPointsUpdate(pts, shape.isClosed);
-      }
+  };
+
+  useEffect(() => {
+    if (!workspaceLoaded) return;
+    pendingSave.current = { projects: workspaceProjects, lastProjectId: activeProjectId };
+    const timer = setTimeout(flushSave, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [workspaceLoaded, projects, shapes, activeProjectId]);
+
+  // Edits still waiting on the delay are written when the tab closes
+  useEffect(() => {
+    window.addEventListener('pagehide', flushSave);
+    return () => window.removeEventListener('pagehide', flushSave);
+  }, []);
+
+  const updateProject = (id: string, update: (project: Project) => Project) => {
+    setProjects(prev => prev.map(p => p.id === id ? { ...update(p), updatedAt: Date.now() } : p));
+  };
+
+  // Stores the active project's shapes, adds any new projects and opens the target
+  const openProject = (target: Project, added: Project[] = []) => {
+    setProjects(prev => [
+      ...prev.map(p => p.id === activeProjectId ? { ...p, shapes, updatedAt: Date.now() } : p),
+      ...added
+    ]);
+    setActiveProjectId(target.id);
+    history.reset(target.shapes);
+    setSelectedShapeId(null);
+    setMode('IDLE');
+  };
+
+  const switchProject = (id: string) => {
+    const target = projects.find(p => p.id === id);
+    if (target) openProject(target);
+  };
+
+  const addProject = (name: string) => {
+    const project = createProject(name);
+    openProject(project, [project]);
+  };
+
+  const copyProject = (id: string) => {
+    const source = workspaceProjects.find(p => p.id === id);
+    if (source) setProjects(prev => [...prev, duplicateProject(source)]);
+  };
+
+  const removeProject = (id: string) => {
+    if (projects.length <= 1) return;
+    if (id === activeProjectId) {
+      const next = projects.find(p => p.id !== id)!;
+      setActiveProjectId(next.id);
+      history.reset(next.shapes);
+      setSelectedShapeId(null);
     }
+    setProjects(prev => prev.filter(p => p.id !== id));
   };
 
+  // Undo / redo shortcuts (ignored while typing in a field)
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    let rid: number;
-    const draw = (t: number) => {
-      canvas.width = canvas.offsetWidth;
-      canvas.height = canvas.offsetHeight;
-      const { width: w, height: h } = canvas;
-      ctx.clearRect(0, 0, w, h);
-
-      if (showCamera && videoRef.current) {
-        ctx.globalAlpha = 0.3;
-        ctx.drawImage(videoRef.current, 0, 0, w, h);
-      }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); history.redo(); }
+      else if (key === 'z') { e.preventDefault(); history.undo(); }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
+
+  // Picked vertices belong to the one surface being edited
+  useEffect(() => { setSelectedVertices([]); }, [selectedShapeId]);
 
-      shapes.forEach(shape => {
-        if (!shape.visible) return;
-        ctx.save();
-        let alpha = shape.style.opacity;
-        if (shape.style.effect === EffectType.BREATHE) alpha *= 0.6 + 0.4 * Math.sin(t / 500);
-        ctx.globalAlpha = alpha;
-        ctx.beginPath();
-        shape.points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x * w, p.y * h) : ctx.lineTo(p.x * w, p.y * h));
-        ctx.closePath();
-        ctx.fillStyle = shape.style.color;
-        ctx.fill();
-        if (selectedShapeId === shape.id && !isProjector) {
-          ctx.strokeStyle = '#00f2ff';
-          ctx.lineWidth = 3;
-          ctx.stroke();
-          shape.points.forEach(p => {
-            ctx.fillStyle = '#fff';
-            ctx.beginPath(); ctx.arc(p.x * w, p.y * h, 6, 0, 7); ctx.fill();
+  // Arrow keys nudge the picked vertices, or every selected surface; holding a key coalesces into one undo step
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      const direction = ARROW_DIRECTIONS[e.key];
+      if (!direction || !selectedShapeIds.length || mode === 'DRAWING' || mode === 'KEYSTONE') return;
+      e.preventDefault();
+      const step = e.shiftKey ? NUDGE_COARSE : e.altKey ? NUDGE_FINE : NUDGE_STEP;
+      const dx = direction.x * step, dy = direction.y * step;
+      if (selectedShapeId && selectedVertices.length) {
+        updateShape('Nudge point', selectedShapeId, s => {
+          if (s.ellipse) return s;
+          const points = [...s.points];
+          let edges = s.edges;
+          selectedVertices.forEach(i => {
+            const from = s.points[i];
+            if (!from) return;
+            const to = { x: Math.max(0, Math.min(1, from.x + dx)), y: Math.max(0, Math.min(1, from.y + dy)) };
+            if (edges) edges = moveAttachedControls({ ...s, edges }, i, to);
+            points[i] = to;
           });
-        }
-        ctx.restore();
-      });
-
-      if (mode === 'DRAWING') {
-        ctx.strokeStyle = '#6366f1';
-        ctx.lineWidth = 2;
-        ctx.setLineDash([5, 5]);
-        ctx.beginPath();
-        currentDrawingPoints.forEach((p, i) => i === 0 ? ctx.moveTo(p.x * w, p.y * h) : ctx.lineTo(p.x * w, p.y * h));
-        ctx.stroke();
+          return edges ? { ...s, points, edges } : { ...s, points };
+        }, `nudge:${selectedShapeId}:${selectedVertices.join(',')}`);
+      } else {
+        updateShapes(selectedShapeIds.length > 1 ? 'Nudge surfaces' : 'Nudge surface', selectedShapeIds, s => translateShape(s, dx, dy), `nudge:${selectedShapeIds.join(',')}`);
       }
-      rid = requestAnimationFrame(draw);
     };
-    rid = requestAnimationFrame(draw);
-    return () => cancelAnimationFrame(rid);
-  }, [shapes, selectedShapeId, mode, showCamera, currentDrawingPoints]);
+    const handleKeyUp = (e: KeyboardEvent) => { if (ARROW_DIRECTIONS[e.key]) history.seal(); };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => { window.removeEventListener('keydown', handleKeyDown); window.removeEventListener('keyup', handleKeyUp); };
+  }, [selectedShapeIds, selectedVertices, mode, history.seal]);
 
-  return (
-    <div className="w-full h-full bg-black relative touch-none">
-      <canvas ref={canvasRef} onMouseDown={handleStart} onMouseMove={handleMove} onMouseUp={() => setDragInfo(null)} onTouchStart={handleStart} onTouchMove={handleMove} onTouchEnd={() => setDragInfo(null)} className="w-full h-full" />
-      <video ref={videoRef} autoPlay playsInline muted className="hidden" />
-    </div>
-  );
-};
+  // Grouping shortcuts: Ctrl+G groups the selection, Ctrl+Shift+G breaks up its groups
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'g') return;
+      e.preventDefault();
+      if (e.shiftKey) ungroup(selectedGroupIds);
+      else groupSelection();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedShapeIds, shapes]);
 
-// --- MAIN APP ---
+  const updateShape = (label: string, id: string, update: (shape: Shape) => Shape, coalesceKey?: string) => {
+    history.commit(label, prev => prev.map(s => s.id === id ? update(s) : s), coalesceKey);
+  };
 
-const App: React.FC = () => {
-  const [shapes, setShapes] = useState<Shape[]>([]);
-  const [selectedShapeId, setSelectedShapeId] = useState<string | null>(null);
-  const [mode, setMode] = useState<EditorMode>('IDLE');
-  const [showCamera, setShowCamera] = useState(false);
-  const [showAI, setShowAI] = useState(false);
-  const [showLayers, setShowLayers] = useState(false);
-  const [zenMode, setZenMode] = useState(false);
-  const [drawingPoints, setDrawingPoints] = useState<Point[]>([]);
-  const [uiVisible, setUiVisible] = useState(true);
+  // Edits from a control stream coalesce while it keeps moving and seal once it rests
+  const updateShapeStream = (label: string, id: string, update: (shape: Shape) => Shape, coalesceKey: string) => {
+    updateShape(label, id, update, coalesceKey);
+    clearTimeout(streamTimers.current.get(coalesceKey));
+    streamTimers.current.set(coalesceKey, window.setTimeout(() => {
+      streamTimers.current.delete(coalesceKey);
+      history.sealGroup(coalesceKey);
+    }, STREAM_IDLE_MS));
+  };
+
+  const updateShapes = (label: string, ids: string[], update: (shape: Shape) => Shape, coalesceKey?: string) => {
+    history.commit(label, prev => prev.map(s => ids.includes(s.id) ? update(s) : s), coalesceKey);
+  };
+
+  // Transform-box drags hand back whole surfaces; the drag's end seals them into one undo step
+  const replaceShapes = (next: Shape[]) => {
+    const byId = new Map(next.map(s => [s.id, s]));
+    history.commit('Transform surfaces', prev => prev.map(s => byId.get(s.id) ?? s), `transform:${next.map(s => s.id).join(',')}`);
+  };
+
+  const selectedShapes = shapes.filter(s => selectedShapeIds.includes(s.id));
+  const selectedGroupIds = Array.from(new Set<string>(selectedShapes.filter(s => s.group).map(s => s.group!.id)));
+
+  const groupSelection = () => {
+    if (selectedShapeIds.length < 2) return;
+    const names = new Set(shapes.map(s => s.group?.name));
+    let n = 1;
+    while (names.has(`Group ${n}`)) n++;
+    const group = { id: Math.random().toString(36).substr(2, 9), name: `Group ${n}` };
+    updateShapes('Group surfaces', selectedShapeIds, s => ({ ...s, group }));
+  };
+
+  const ungroup = (groupIds: string[]) => {
+    if (!groupIds.length) return;
+    history.commit('Ungroup surfaces', prev => prev.map(s => s.group && groupIds.includes(s.group.id) ? { ...s, group: undefined } : s));
+  };
+
+  const renameGroup = (groupId: string, name: string) => {
+    history.commit('Rename group', prev => prev.map(s => s.group?.id === groupId ? { ...s, group: { ...s.group, name } } : s));
+  };
+
+  // Layer list clicks: plain replaces the selection, shift toggles the clicked rows in or out of it
+  const selectLayers = (ids: string[], additive: boolean) => {
+    const next = !additive ? ids
+      : ids.every(id => selectedShapeIds.includes(id)) ? selectedShapeIds.filter(id => !ids.includes(id))
+      : Array.from(new Set([...selectedShapeIds, ...ids]));
+    setSelectedShapeIds(next);
+    setMode(next.length ? 'EDITING' : 'IDLE');
+  };
+
+  const updateStyle = (id: string, style: Partial<ShapeStyle>) => {
+    // Slider and color-picker scrubs land in one entry; discrete choices get their own
+    const keys = Object.keys(style);
+    const continuous = keys.every(k => CONTINUOUS_STYLE_KEYS.includes(k as keyof ShapeStyle));
+    updateShape('Edit style', id, s => ({ ...s, style: { ...s.style, ...style } }), continuous ? `style:${id}:${keys.join(',')}` : undefined);
+  };
 
   const addShape = (type: ShapeType, pts?: Point[]) => {
     const id = Math.random().toString(36).substr(2, 9);
-    const newShape: Shape = {
+    // Circles start round on screen: the vertical radius compensates for the viewport aspect
+    const ellipse: EllipseGeometry | undefined = type === 'circle'
+      ? { center: { x: 0.5, y: 0.5 }, radiusX: 0.1, radiusY: 0.1 * (window.innerWidth / window.innerHeight), rotation: 0 }
+      : undefined;
+    history.commit('Add surface', prev => [...prev, {
       id,
-      name: `${type} ${shapes.length + 1}`,
+      name: `${type} ${prev.length + 1}`,
       type,
-      points: pts || [{x:0.4,y:0.4},{x:0.6,y:0.4},{x:0.6,y:0.6},{x:0.4,y:0.6}],
+      points: ellipse ? ellipseToPoints(ellipse, window.innerWidth / window.innerHeight) : pts || [{x:0.4,y:0.4},{x:0.6,y:0.4},{x:0.6,y:0.6},{x:0.4,y:0.6}],
+      ellipse,
       visible: true,
       isClosed: true,
-      style: { color: '#ffffff', opacity: 1, strokeColor: '#fff', strokeWidth: 0, effect: EffectType.NONE, effectSpeed: 5, fillType: FillType.SOLID, mappingMode: MappingMode.STRETCH }
-    };
-    setShapes([...shapes, newShape]);
+      style: { color: '#ffffff', opacity: 1, strokeColor: '#ffffff', strokeWidth: 0, effect: EffectType.NONE, effectSpeed: 5, fillType: FillType.SOLID, mappingMode: MappingMode.STRETCH }
+    }]);
     setSelectedShapeId(id);
     setMode('EDITING');
   };
 
-  const deleteShape = (id: string) => {
-    setShapes(shapes.filter(s => s.id !== id));
-    if (selectedShapeId === id) setSelectedShapeId(null);
+  const deleteShapes = (ids: string[]) => {
+    history.commit(ids.length > 1 ? 'Delete surfaces' : 'Delete surface', prev => prev.filter(s => !ids.includes(s.id)));
+    setSelectedShapeIds(prev => prev.filter(id => !ids.includes(id)));
+  };
+
+  const saveVersion = (name: string) => {
+    if (!activeProjectId) return;
+    updateProject(activeProjectId, p => ({ ...p, versions: [...p.versions, { id: Date.now().toString(), name, timestamp: Date.now(), shapes }] }));
+  };
+
+  const deleteVersion = (id: string) => {
+    if (!activeProjectId) return;
+    updateProject(activeProjectId, p => ({ ...p, versions: p.versions.filter(v => v.id !== id) }));
+  };
+
+  const restoreVersion = (version: ProjectVersion) => {
+    history.commit(`Restore ${version.name}`, () => version.shapes);
+    setSelectedShapeId(null);
+  };
+
+  const setOutputs = (next: OutputRegion[]) => {
+    if (activeProjectId) updateProject(activeProjectId, p => ({ ...p, outputs: next }));
+  };
+
+  const setGuides = (next: Guide[]) => {
+    if (activeProjectId) updateProject(activeProjectId, p => ({ ...p, guides: next }));
+  };
+
+  const setKeystone = (next: Keystone) => {
+    if (activeProjectId) updateProject(activeProjectId, p => ({ ...p, keystone: next }));
+  };
+
+  // Keystone setup lives in the outputs sidebar; closing it ends the mode
+  const adjustKeystone = (adjusting: boolean) => {
+    setSelectedShapeId(null);
+    setDrawingPoints([]);
+    setMode(adjusting ? 'KEYSTONE' : 'IDLE');
+  };
+
+  useEffect(() => {
+    if (leftPanel !== 'outputs' && mode === 'KEYSTONE') setMode('IDLE');
+  }, [leftPanel]);
+
+  const setCues = (next: Cue[]) => {
+    if (activeProjectId) updateProject(activeProjectId, p => ({ ...p, cues: next }));
+  };
+
+  const setMidiMappings = (next: MidiMapping[]) => {
+    if (activeProjectId) updateProject(activeProjectId, p => ({ ...p, midiMappings: next }));
+  };
+
+  const connectMidi = () => {
+    startMidi().then(setMidiInputs).catch(err => alert("MIDI Error: " + err.message));
+  };
+
+  // Continuous targets follow the control's value; discrete ones fire once per press (note on, or a CC crossing half way)
+  const applyMidi = (mapping: MidiMapping, event: MidiEvent, pressed: boolean) => {
+    const { target } = mapping;
+    if (target.action === 'master') { setMaster(event.value); return; }
+    if (target.action === 'version') {
+      const version = versions.find(v => v.id === target.versionId);
+      if (version && pressed) restoreVersion(version);
+      return;
+    }
+    if (!shapes.some(s => s.id === target.shapeId)) return;
+    const id = target.shapeId;
+    if (target.action === 'opacity') {
+      updateShapeStream('MIDI opacity', id, s => ({ ...s, style: { ...s.style, opacity: event.value } }), `midi:${mapping.id}`);
+    } else if (target.action === 'effectSpeed') {
+      updateShapeStream('MIDI effect speed', id, s => ({ ...s, style: { ...s.style, effectSpeed: 1 + event.value * 9 } }), `midi:${mapping.id}`);
+    } else if (target.action === 'visibility') {
+      if (event.kind === 'cc') updateShape('MIDI visibility', id, s => ({ ...s, visible: event.value >= 0.5 }));
+      else if (pressed) updateShape('MIDI visibility', id, s => ({ ...s, visible: !s.visible }));
+    } else if (target.action === 'effect' && pressed) {
+      updateShape('MIDI effect', id, s => ({ ...s, style: { ...s.style, effect: target.effect } }));
+    }
   };
 
+  midiHandler.current = (event) => {
+    setLastMidi(event);
+    const key = `${event.kind}:${event.channel}:${event.number}`;
+    const down = event.kind === 'note' ? event.value > 0 : event.value >= 0.5;
+    const pressed = down && !midiHeld.current.has(key);
+    if (down) midiHeld.current.add(key); else midiHeld.current.delete(key);
+
+    if (midiLearn) {
+      if (!pressed && event.kind === 'note') return; // a learnt pad's release should not bind or fire
+      const mapping: MidiMapping = { id: Math.random().toString(36).substr(2, 9), trigger: { kind: event.kind, channel: event.channel, number: event.number }, target: midiLearn };
+      setMidiMappings([...midiMappings, mapping]);
+      setMidiLearn(null);
+      return;
+    }
+    midiMappings.filter(m => matchesTrigger(m.trigger, event)).forEach(m => applyMidi(m, event, pressed));
+  };
+
+  remoteHandler.current = (message) => {
+    setRemoteLog(prev => [message, ...prev].slice(0, 12));
+    const { replies, update } = handleRemoteMessage(shapes, message);
+    // Streams of values for one property (a fader in the show controller) land in one undo entry
+    if (update) updateShapeStream(update.label, update.shapeId, update.apply, `remote:${update.shapeId}:${update.key}`);
+    replies.forEach(reply => remote.current?.send(reply));
+  };
+
+  const showCalibrationPattern = (pattern: CalibrationPattern | null) => {
+    projectorChannel.current?.postMessage({ type: 'calibration', pattern } as ProjectorMessage);
+  };
+
+  const changeTransport = (next: Transport | null) => {
+    setTransport(next);
+    projectorChannel.current?.postMessage({ type: 'transport', transport: next } as ProjectorMessage);
+  };
+
+  const exportBundle = async () => {
+    try {
+      const blob = await exportProjectBundle({ name: projectName, shapes, versions, outputs, keystone: activeProject?.keystone, guides: activeProject?.guides, cues, midiMappings });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${projectName.replace(/[^\w-]+/g, '_')}${BUNDLE_EXTENSION}`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e: any) { alert("Export Error: " + e.message); }
+  };
+
+  const importBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const bundle = await importProjectBundle(file);
+      const project = { ...createProject(bundle.name, bundle.shapes, bundle.versions), outputs: bundle.outputs, keystone: bundle.keystone, guides: bundle.guides, cues: bundle.cues, midiMappings: bundle.midiMappings };
+      openProject(project, [project]);
+    } catch (err: any) { alert("Import Error: " + err.message); }
+  };
+
+  const selectedShape = shapes.find(s => s.id === selectedShapeId);
+
   return (
     <div className="h-screen w-screen bg-black overflow-hidden flex flex-col text-white">
       {/* Top Bar */}
@@ -221,10 +533,27 @@ const App: React.FC = () => {
         <div className="absolute top-6 left-6 right-6 flex justify-between items-center z-50">
           <div className="flex gap-4 p-2 bg-zinc-900/90 backdrop-blur rounded-2xl border border-white/10">
             <button onClick={() => addShape('square')} className="p-3 hover:bg-white/10 rounded-xl transition-all"><SquareIcon className="w-5 h-5"/></button>
+            <button onClick={() => addShape('circle')} className="p-3 hover:bg-white/10 rounded-xl transition-all"><CircleIcon className="w-5 h-5"/></button>
             <button onClick={() => setMode('DRAWING')} className={`p-3 rounded-xl transition-all ${mode === 'DRAWING' ? 'bg-indigo-600' : 'hover:bg-white/10'}`}><Plus className="w-5 h-5"/></button>
             <button onClick={() => setShowCamera(!showCamera)} className={`p-3 rounded-xl transition-all ${showCamera ? 'text-green-400' : ''}`}><Camera className="w-5 h-5"/></button>
+            <SnapControl snap={snap} onChange={setSnap} rulers={showRulers} onRulersChange={setShowRulers} />
+            <button onClick={() => { setShowLayers(!showLayers); setShowProperties(false); }} title="Layers" className={`p-3 rounded-xl transition-all ${showLayers ? 'bg-white/10' : 'hover:bg-white/10'}`}><Layers className="w-5 h-5"/></button>
+            <button onClick={() => setLeftPanel(leftPanel === 'projects' ? null : 'projects')} className={`p-3 rounded-xl transition-all ${leftPanel === 'projects' ? 'bg-white/10' : 'hover:bg-white/10'}`}><FolderOpen className="w-5 h-5"/></button>
+            <button onClick={() => setLeftPanel(leftPanel === 'outputs' ? null : 'outputs')} title="Outputs & Edge Blending" className={`p-3 rounded-xl transition-all ${leftPanel === 'outputs' ? 'bg-white/10 text-amber-400' : 'hover:bg-white/10'}`}><Monitor className="w-5 h-5"/></button>
+            <button onClick={() => setLeftPanel(leftPanel === 'cues' ? null : 'cues')} title="Show Cues" className={`p-3 rounded-xl transition-all ${leftPanel === 'cues' ? 'bg-white/10 text-rose-400' : transport?.playing ? 'text-rose-400 animate-pulse' : 'hover:bg-white/10'}`}><Clock className="w-5 h-5"/></button>
+            <button onClick={() => setLeftPanel(leftPanel === 'audio' ? null : 'audio')} title="Audio Input" className={`p-3 rounded-xl transition-all ${leftPanel === 'audio' ? 'bg-white/10 text-emerald-400' : audioInput ? 'text-emerald-400' : 'hover:bg-white/10'}`}><AudioLines className="w-5 h-5"/></button>
+            <button onClick={() => setLeftPanel(leftPanel === 'midi' ? null : 'midi')} title="MIDI Control" className={`p-3 rounded-xl transition-all ${leftPanel === 'midi' ? 'bg-white/10 text-violet-400' : midiLearn ? 'text-violet-400 animate-pulse' : 'hover:bg-white/10'}`}><Piano className="w-5 h-5"/></button>
+            <button onClick={() => setLeftPanel(leftPanel === 'remote' ? null : 'remote')} title="Remote Control" className={`p-3 rounded-xl transition-all ${leftPanel === 'remote' ? 'bg-white/10 text-sky-400' : remoteStatus === 'open' ? 'text-sky-400' : 'hover:bg-white/10'}`}><Network className="w-5 h-5"/></button>
+            <button onClick={() => setLeftPanel(leftPanel === 'calibration' ? null : 'calibration')} title="Camera Calibration" className={`p-3 rounded-xl transition-all ${leftPanel === 'calibration' ? 'bg-white/10 text-cyan-400' : 'hover:bg-white/10'}`}><ScanLine className="w-5 h-5"/></button>
+            <button onClick={() => setLeftPanel(leftPanel === 'detection' ? null : 'detection')} title="Detect Surfaces" className={`p-3 rounded-xl transition-all ${leftPanel === 'detection' ? 'bg-white/10 text-orange-400' : 'hover:bg-white/10'}`}><WandSparkles className="w-5 h-5"/></button>
           </div>
           <div className="flex gap-4">
+            <TempoControl tempo={tempo} onChange={setTempo} />
+            <div className="flex gap-1 p-2 bg-zinc-900/90 backdrop-blur rounded-2xl border border-white/10">
+              <button onClick={history.undo} disabled={!history.canUndo} title={history.undoLabel ? `Undo ${history.undoLabel}` : 'Undo'} className="p-2 hover:bg-white/10 rounded-xl transition-all disabled:opacity-30"><Undo2 className="w-5 h-5"/></button>
+              <button onClick={history.redo} disabled={!history.canRedo} title={history.redoLabel ? `Redo ${history.redoLabel}` : 'Redo'} className="p-2 hover:bg-white/10 rounded-xl transition-all disabled:opacity-30"><Redo2 className="w-5 h-5"/></button>
+            </div>
+            <button onClick={() => openProjectorWindow()} title="Open Projector Output" className="px-6 py-3 bg-zinc-900 rounded-2xl border border-white/10 font-bold uppercase tracking-widest text-[10px] flex items-center gap-2"><Cast className="w-4 h-4"/> Projector Output</button>
             <button onClick={() => setShowAI(true)} className="px-6 py-3 bg-indigo-600 rounded-2xl font-bold uppercase tracking-widest text-[10px] flex items-center gap-2 shadow-xl"><Sparkles className="w-4 h-4"/> Magic AI</button>
             <button onClick={() => setZenMode(true)} className="p-3 bg-zinc-900 rounded-2xl border border-white/10"><MonitorOff className="w-5 h-5"/></button>
           </div>
@@ -236,15 +565,37 @@ const App: React.FC = () => {
         <Canvas 
           shapes={shapes}
           selectedShapeId={selectedShapeId}
+          selectedShapeIds={selectedShapeIds}
           mode={mode}
           showCamera={showCamera}
           globalTestPattern={false}
           currentDrawingPoints={drawingPoints}
-          onPointsUpdate={(pts, closed) => {
+          outputRegions={leftPanel === 'outputs' && mode !== 'KEYSTONE' && uiVisible && !zenMode ? outputs : undefined}
+          show={transport ? { cues, transport } : undefined}
+          tempo={tempo}
+          master={master}
+          proposals={leftPanel === 'detection' && proposals ? proposals : undefined}
+          keystone={keystone}
+          guides={showRulers && mode !== 'KEYSTONE' && uiVisible && !zenMode ? guides : undefined}
+          snap={snap}
+          selectedVertices={selectedVertices}
+          onPointsUpdate={(pts, closed, edges) => {
             if (mode === 'DRAWING') { addShape('polygon', pts); setDrawingPoints([]); setMode('IDLE'); }
-            else if (selectedShapeId) setShapes(shapes.map(s => s.id === selectedShapeId ? {...s, points: pts} : s));
+            else if (selectedShapeId) updateShape('Move point', selectedShapeId, s => edges ? {...s, points: pts, edges} : {...s, points: pts}, `points:${selectedShapeId}`);
+          }}
+          onEllipseUpdate={(ellipse) => {
+            if (selectedShapeId) updateShape('Adjust ellipse', selectedShapeId, s => ({...s, ellipse, points: ellipseToPoints(ellipse, window.innerWidth / window.innerHeight)}), `ellipse:${selectedShapeId}`);
+          }}
+          onMeshUpdate={(mesh) => {
+            if (selectedShapeId) updateShape('Warp mesh', selectedShapeId, s => ({...s, mesh}), `mesh:${selectedShapeId}`);
           }}
-          onSelectShape={setSelectedShapeId}
+          onKeystoneUpdate={setKeystone}
+          onGuidesChange={setGuides}
+          onSelectVertices={setSelectedVertices}
+          onShapesTransform={replaceShapes}
+          onDragEnd={history.seal}
+          onModeChange={setMode}
+          onSelectShapes={setSelectedShapeIds}
           onDrawingUpdate={setDrawingPoints}
         />
 
@@ -252,20 +603,230 @@ const App: React.FC = () => {
         {selectedShapeId && uiVisible && !zenMode && (
           <div className="absolute bottom-10 left-1/2 -translate-x-1/2 bg-zinc-900/90 border border-white/10 p-6 rounded-3xl flex items-center gap-8 backdrop-blur shadow-2xl animate-in slide-in-from-bottom-4">
             <div>
-              <div className="text-[10px] text-zinc-500 font-black uppercase tracking-widest mb-1">Active Surface</div>
+              <div className="text-[10px] text-zinc-500 font-black uppercase tracking-widest mb-1">Active Surface{selectedShape?.group && ` · ${selectedShape.group.name}`}</div>
               <div className="font-bold">{shapes.find(s => s.id === selectedShapeId)?.name}</div>
+              {mode === 'EDITING' && !selectedShape?.ellipse && (
+                <div className="text-[9px] text-zinc-600 font-bold uppercase tracking-widest mt-1">Double-click an edge to curve it</div>
+              )}
             </div>
             <div className="h-10 w-px bg-white/10"></div>
             <div className="flex gap-2">
-              <input type="color" className="w-10 h-10 rounded bg-transparent border-none cursor-pointer" onChange={(e) => {
-                setShapes(shapes.map(s => s.id === selectedShapeId ? {...s, style: {...s.style, color: e.target.value}} : s));
-              }} />
-              <button onClick={() => deleteShape(selectedShapeId)} className="p-3 text-red-400 hover:bg-red-400/10 rounded-xl transition-all"><Trash2 className="w-5 h-5"/></button>
+              <input type="color" className="w-10 h-10 rounded bg-transparent border-none cursor-pointer" value={selectedShape?.style.color} onChange={(e) => updateStyle(selectedShapeId, { color: e.target.value })} onBlur={history.seal} />
+              <button onClick={() => { setShowProperties(!showProperties); setShowLayers(false); }} className={`p-3 rounded-xl transition-all ${showProperties ? 'bg-white/10' : 'hover:bg-white/10'}`}><Settings2 className="w-5 h-5"/></button>
+              <button onClick={() => deleteShapes([selectedShapeId])} className="p-3 text-red-400 hover:bg-red-400/10 rounded-xl transition-all"><Trash2 className="w-5 h-5"/></button>
+            </div>
+          </div>
+        )}
+
+        {/* HUD for a multi-selection or group */}
+        {selectedShapeIds.length > 1 && uiVisible && !zenMode && (
+          <div className="absolute bottom-10 left-1/2 -translate-x-1/2 bg-zinc-900/90 border border-white/10 p-6 rounded-3xl flex items-center gap-8 backdrop-blur shadow-2xl animate-in slide-in-from-bottom-4">
+            <div>
+              <div className="text-[10px] text-zinc-500 font-black uppercase tracking-widest mb-1">Selection</div>
+              <div className="font-bold">
+                {selectedGroupIds.length === 1 && selectedShapes.every(s => s.group) ? selectedShapes[0].group!.name : `${selectedShapeIds.length} Surfaces`}
+              </div>
+              <div className="text-[9px] text-zinc-600 font-bold uppercase tracking-widest mt-1">Shift constrains · Ctrl on a side handle skews</div>
+            </div>
+            <div className="h-10 w-px bg-white/10"></div>
+            <div className="flex gap-2">
+              <button onClick={groupSelection} title="Group (Ctrl+G)" className="p-3 hover:bg-white/10 rounded-xl transition-all"><Group className="w-5 h-5"/></button>
+              <button onClick={() => ungroup(selectedGroupIds)} disabled={!selectedGroupIds.length} title="Ungroup (Ctrl+Shift+G)" className="p-3 hover:bg-white/10 rounded-xl transition-all disabled:opacity-30"><Ungroup className="w-5 h-5"/></button>
+              <button onClick={() => deleteShapes(selectedShapeIds)} className="p-3 text-red-400 hover:bg-red-400/10 rounded-xl transition-all"><Trash2 className="w-5 h-5"/></button>
             </div>
           </div>
         )}
       </div>
 
+      {/* Project Sidebar */}
+      {leftPanel === 'projects' && uiVisible && !zenMode && (
+        <div className="absolute top-28 left-6 bottom-6 w-80 bg-zinc-900/95 border border-white/10 rounded-3xl p-6 overflow-y-auto custom-scrollbar z-40 backdrop-blur">
+          <div className="flex justify-between items-center mb-6">
+            <div className="text-[10px] text-zinc-500 font-black uppercase tracking-widest">{projectName}</div>
+            <button onClick={() => setLeftPanel(null)} className="p-1 text-zinc-500 hover:text-white"><X className="w-5 h-5"/></button>
+          </div>
+          <ProjectBrowser
+            projects={workspaceProjects}
+            activeProjectId={activeProjectId}
+            onSwitch={switchProject}
+            onCreate={addProject}
+            onRename={(id, name) => updateProject(id, p => ({ ...p, name }))}
+            onDuplicate={copyProject}
+            onDelete={removeProject}
+          />
+          <div className="my-6 border-t border-white/5" />
+          <ProjectManager
+            shapes={shapes}
+            versions={versions}
+            onSaveVersion={saveVersion}
+            onRestoreVersion={restoreVersion}
+            onDeleteVersion={deleteVersion}
+            onExport={exportBundle}
+            onImport={importBundle}
+          />
+        </div>
+      )}
+
+      {/* Outputs Sidebar */}
+      {leftPanel === 'outputs' && uiVisible && !zenMode && (
+        <div className="absolute top-28 left-6 bottom-6 w-80 bg-zinc-900/95 border border-white/10 rounded-3xl p-6 overflow-y-auto custom-scrollbar z-40 backdrop-blur">
+          <div className="flex justify-end mb-2">
+            <button onClick={() => setLeftPanel(null)} className="p-1 text-zinc-500 hover:text-white"><X className="w-5 h-5"/></button>
+          </div>
+          <OutputPanel
+            key={activeProjectId ?? ''}
+            outputs={outputs}
+            onChange={setOutputs}
+            onOpen={(id) => openProjectorWindow(id)}
+            keystone={keystone}
+            onKeystoneChange={setKeystone}
+            adjustingKeystone={mode === 'KEYSTONE'}
+            onAdjustKeystone={adjustKeystone}
+          />
+        </div>
+      )}
+
+      {/* Cue List Sidebar */}
+      {leftPanel === 'cues' && uiVisible && !zenMode && (
+        <div className="absolute top-28 left-6 bottom-6 w-80 bg-zinc-900/95 border border-white/10 rounded-3xl p-6 overflow-y-auto custom-scrollbar z-40 backdrop-blur">
+          <div className="flex justify-end mb-2">
+            <button onClick={() => setLeftPanel(null)} className="p-1 text-zinc-500 hover:text-white"><X className="w-5 h-5"/></button>
+          </div>
+          <CuePanel
+            shapes={shapes}
+            cues={cues}
+            transport={transport}
+            onChange={setCues}
+            onTransport={changeTransport}
+          />
+        </div>
+      )}
+
+      {/* Audio Sidebar */}
+      {leftPanel === 'audio' && uiVisible && !zenMode && (
+        <div className="absolute top-28 left-6 bottom-6 w-80 bg-zinc-900/95 border border-white/10 rounded-3xl p-6 overflow-y-auto custom-scrollbar z-40 backdrop-blur">
+          <div className="flex justify-end mb-2">
+            <button onClick={() => setLeftPanel(null)} className="p-1 text-zinc-500 hover:text-white"><X className="w-5 h-5"/></button>
+          </div>
+          <AudioPanel shapes={shapes} input={audioInput} onInput={setAudioInput} />
+        </div>
+      )}
+
+      {/* MIDI Sidebar */}
+      {leftPanel === 'midi' && uiVisible && !zenMode && (
+        <div className="absolute top-28 left-6 bottom-6 w-80 bg-zinc-900/95 border border-white/10 rounded-3xl p-6 overflow-y-auto custom-scrollbar z-40 backdrop-blur">
+          <div className="flex justify-end mb-2">
+            <button onClick={() => setLeftPanel(null)} className="p-1 text-zinc-500 hover:text-white"><X className="w-5 h-5"/></button>
+          </div>
+          <MidiPanel
+            key={activeProjectId ?? ''}
+            shapes={shapes}
+            versions={versions}
+            mappings={midiMappings}
+            inputs={midiInputs}
+            learning={midiLearn}
+            lastEvent={lastMidi}
+            master={master}
+            onMaster={setMaster}
+            onConnect={connectMidi}
+            onLearn={setMidiLearn}
+            onCancelLearn={() => setMidiLearn(null)}
+            onDelete={(id) => setMidiMappings(midiMappings.filter(m => m.id !== id))}
+          />
+        </div>
+      )}
+
+      {/* Remote Control Sidebar */}
+      {leftPanel === 'remote' && uiVisible && !zenMode && (
+        <div className="absolute top-28 left-6 bottom-6 w-80 bg-zinc-900/95 border border-white/10 rounded-3xl p-6 overflow-y-auto custom-scrollbar z-40 backdrop-blur">
+          <div className="flex justify-end mb-2">
+            <button onClick={() => setLeftPanel(null)} className="p-1 text-zinc-500 hover:text-white"><X className="w-5 h-5"/></button>
+          </div>
+          <RemotePanel settings={remoteSettings} status={remoteStatus} log={remoteLog} onChange={setRemoteSettings} />
+        </div>
+      )}
+
+      {/* Calibration Sidebar */}
+      {leftPanel === 'calibration' && uiVisible && !zenMode && (
+        <div className="absolute top-28 left-6 bottom-6 w-80 bg-zinc-900/95 border border-white/10 rounded-3xl p-6 overflow-y-auto custom-scrollbar z-40 backdrop-blur">
+          <div className="flex justify-end mb-2">
+            <button onClick={() => setLeftPanel(null)} className="p-1 text-zinc-500 hover:text-white"><X className="w-5 h-5"/></button>
+          </div>
+          <CalibrationPanel
+            calibration={calibration}
+            onPattern={showCalibrationPattern}
+            onSolved={setCalibration}
+            onTrace={() => setTracing(true)}
+          />
+        </div>
+      )}
+
+      {/* Surface Detection Sidebar */}
+      {leftPanel === 'detection' && uiVisible && !zenMode && (
+        <div className="absolute top-28 left-6 bottom-6 w-80 bg-zinc-900/95 border border-white/10 rounded-3xl p-6 overflow-y-auto custom-scrollbar z-40 backdrop-blur">
+          <div className="flex justify-end mb-2">
+            <button onClick={() => setLeftPanel(null)} className="p-1 text-zinc-500 hover:text-white"><X className="w-5 h-5"/></button>
+          </div>
+          <DetectionPanel
+            calibration={calibration}
+            onPreview={setProposals}
+            onAccept={(points, isQuad) => addShape(isQuad ? 'square' : 'polygon', points)}
+          />
+        </div>
+      )}
+
+      {/* Calibration Tracing Overlay */}
+      {tracing && calibration && (
+        <CalibrationTracer
+          calibration={calibration}
+          onAdd={(points) => addShape('polygon', points)}
+          onClose={() => { setTracing(false); setMode('IDLE'); }}
+        />
+      )}
+
+      {/* Layers Sidebar */}
+      {showLayers && uiVisible && !zenMode && (
+        <div className="absolute top-28 right-6 bottom-6 w-80 bg-zinc-900/95 border border-white/10 rounded-3xl p-6 overflow-y-auto custom-scrollbar z-40 backdrop-blur">
+          <div className="flex justify-end mb-2">
+            <button onClick={() => setShowLayers(false)} className="p-1 text-zinc-500 hover:text-white"><PanelRightClose className="w-5 h-5"/></button>
+          </div>
+          <LayerList
+            shapes={shapes}
+            selectedShapeIds={selectedShapeIds}
+            onSelect={selectLayers}
+            onDelete={(id) => deleteShapes([id])}
+            onToggleVisibility={(ids, visible) => updateShapes(ids.length > 1 ? 'Toggle group' : 'Toggle visibility', ids, s => ({ ...s, visible }))}
+            onRenameGroup={renameGroup}
+            onUngroup={(groupId) => ungroup([groupId])}
+            onAddClick={() => addShape('square')}
+          />
+        </div>
+      )}
+
+      {/* Properties Sidebar */}
+      {selectedShape && showProperties && uiVisible && !zenMode && (
+        <div className="absolute top-28 right-6 bottom-6 w-80 bg-zinc-900/95 border border-white/10 rounded-3xl p-6 overflow-y-auto custom-scrollbar z-40 backdrop-blur">
+          <div className="flex justify-end mb-2">
+            <button onClick={() => setShowProperties(false)} className="p-1 text-zinc-500 hover:text-white"><PanelRightClose className="w-5 h-5"/></button>
+          </div>
+          <PropertyPanel
+            shape={selectedShape}
+            onUpdateStyle={(style) => updateStyle(selectedShape.id, style)}
+            onUpdateName={(name) => updateShape('Rename surface', selectedShape.id, s => ({...s, name}), `name:${selectedShape.id}`)}
+            onUpdateMesh={(mesh, scrubbing) => updateShape('Edit mesh', selectedShape.id, s => ({...s, mesh}), scrubbing ? `mesh:${selectedShape.id}` : undefined)}
+            onEditEnd={history.seal}
+          />
+          <div className="mt-8 pt-6 border-t border-white/5">
+            <AnimationPanel
+              key={selectedShape.id}
+              shape={selectedShape}
+              onUpdateAnimation={(animation) => updateShape('Edit keyframes', selectedShape.id, s => ({...s, animation}))}
+              onApplyValue={(property, value) => updateShape('Load keyframe', selectedShape.id, s => applyValue(s, property, value))}
+            />
+          </div>
+        </div>
+      )}
+
       {/* AI Assistant Overlay */}
       {showAI && (
         <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-xl flex items-center justify-center p-6">
@@ -306,4 +867,6 @@ const App: React.FC = () => {
   );
 };
 
+const App: React.FC = () => (isProjectorView() ? <ProjectorOutput /> : isRemoteView() ? <RemoteView /> : <Editor />);
+
 export default App;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Film, Diamond, Trash2, Repeat, Download } from 'lucide-react';
+import { Shape, ShapeAnimation, AnimatableProperty, Keyframe, Easing } from '../types.ts';
+import {
+  ANIMATABLE_PROPERTIES, EASINGS, DEFAULT_ANIMATION,
+  captureValue, setKeyframe, updateKeyframe, removeKeyframe
+} from '../utils/keyframes.ts';
+
+interface AnimationPanelProps {
+  shape: Shape;
+  onUpdateAnimation: (animation: ShapeAnimation | undefined) => void;
+  onApplyValue: (property: AnimatableProperty, value: Keyframe['value']) => void;
+}
+
+const PROPERTY_LABELS: Record<AnimatableProperty, string> = {
+  opacity: 'Opacity',
+  color: 'Color',
+  effectSpeed: 'FX Speed',
+  feather: 'Soft Edge',
+  strokeColor: 'Outline Color',
+  strokeWidth: 'Outline',
+  strokeGlow: 'Outline Glow',
+  strokeSpeed: 'Chase Speed',
+  geometry: 'Shape',
+};
+
+const AnimationPanel: React.FC<AnimationPanelProps> = ({ shape, onUpdateAnimation, onApplyValue }) => {
+  const animation = shape.animation ?? DEFAULT_ANIMATION;
+  const [time, setTime] = useState(0);
+  const [selected, setSelected] = useState<{ property: AnimatableProperty; time: number } | null>(null);
+
+  const selectedKey = selected && animation.tracks
+    .find(t => t.property === selected.property)?.keyframes
+    .find(k => k.time === selected.time);
+
+  const addKey = (property: AnimatableProperty) => {
+    onUpdateAnimation(setKeyframe(animation, property, time, captureValue(shape, property)));
+    setSelected({ property, time });
+  };
+
+  const deleteKey = () => {
+    if (!selected) return;
+    const next = removeKeyframe(animation, selected.property, selected.time);
+    onUpdateAnimation(next.tracks.length > 0 ? next : undefined);
+    setSelected(null);
+  };
+
+  const moveKey = (to: number) => {
+    if (!selected) return;
+    const clamped = Math.max(0, Math.min(animation.duration, to));
+    onUpdateAnimation(updateKeyframe(animation, selected.property, selected.time, { time: clamped }));
+    setSelected({ ...selected, time: clamped });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] text-slate-500 block uppercase font-black tracking-widest flex items-center gap-2">
+          <Film className="w-3.5 h-3.5 text-pink-400" /> Keyframes
+        </label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number" min="0.5" step="0.5"
+            value={animation.duration}
+            onChange={(e) => onUpdateAnimation({ ...animation, duration: Math.max(0.5, parseFloat(e.target.value) || 0.5) })}
+            className="w-14 bg-slate-950 border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white focus:outline-none"
+            title="Duration in seconds"
+          />
+          <button
+            onClick={() => onUpdateAnimation({ ...animation, loop: !animation.loop })}
+            className={`p-1.5 rounded-lg border transition-all ${animation.loop ? 'bg-pink-500 text-black border-pink-400' : 'text-slate-500 border-white/10'}`}
+            title={animation.loop ? 'Looping' : 'Plays once along the show timeline'}
+          >
+            <Repeat className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-[9px] text-slate-500 uppercase font-black tracking-widest mb-1">
+          <span>Playhead</span>
+          <span className="text-pink-400">{time.toFixed(2)}s</span>
+        </div>
+        <input
+          type="range" min="0" max={animation.duration} step="0.05"
+          value={Math.min(time, animation.duration)}
+          onChange={(e) => setTime(parseFloat(e.target.value))}
+          className="w-full accent-pink-500"
+        />
+      </div>
+
+      <div className="space-y-2">
+        {ANIMATABLE_PROPERTIES.map(property => {
+          const track = animation.tracks.find(t => t.property === property);
+          return (
+            <div key={property} className="flex items-center gap-2">
+              <span className="w-16 text-[8px] text-slate-500 uppercase font-black tracking-widest">{PROPERTY_LABELS[property]}</span>
+              <div className="relative flex-1 h-5 bg-slate-950 rounded border border-white/5">
+                <div className="absolute top-0 bottom-0 w-px bg-pink-500/60" style={{ left: `${(time / animation.duration) * 100}%` }} />
+                {track?.keyframes.map(key => (
+                  <button
+                    key={key.time}
+                    onClick={() => { setSelected({ property, time: key.time }); setTime(key.time); }}
+                    className={`absolute top-1/2 w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rotate-45 border ${selected?.property === property && selected.time === key.time ? 'bg-pink-400 border-white' : 'bg-pink-600 border-pink-300/40'}`}
+                    style={{ left: `${(key.time / animation.duration) * 100}%` }}
+                    title={`${key.time.toFixed(2)}s · ${key.easing}`}
+                  />
+                ))}
+              </div>
+              <button onClick={() => addKey(property)} className="p-1 text-slate-500 hover:text-pink-400 transition-colors" title="Key the current value at the playhead">
+                <Diamond className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {selected && selectedKey && (
+        <div className="bg-slate-950/50 p-3 rounded-2xl border border-pink-500/20 space-y-3 animate-in slide-in-from-top-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[9px] text-pink-400 uppercase font-black tracking-widest">{PROPERTY_LABELS[selected.property]} key</span>
+            <div className="flex items-center gap-1">
+              <input
+                type="number" min="0" max={animation.duration} step="0.05"
+                value={selectedKey.time}
+                onChange={(e) => moveKey(parseFloat(e.target.value) || 0)}
+                className="w-16 bg-black border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white focus:outline-none"
+              />
+              <button onClick={() => onApplyValue(selected.property, selectedKey.value)} className="p-1.5 text-slate-500 hover:text-white transition-colors" title="Load this key into the surface for editing">
+                <Download className="w-3.5 h-3.5" />
+              </button>
+              <button onClick={deleteKey} className="p-1.5 text-slate-500 hover:text-red-500 transition-colors" title="Delete key">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-1.5">
+            {(Object.keys(EASINGS) as Easing[]).map(easing => (
+              <button
+                key={easing}
+                onClick={() => onUpdateAnimation(updateKeyframe(animation, selected.property, selected.time, { easing }))}
+                className={`py-1.5 rounded-lg border text-[8px] font-black uppercase tracking-widest transition-all ${selectedKey.easing === easing ? 'bg-pink-500 text-black border-pink-400' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
+              >
+                {easing}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <p className="text-[9px] text-slate-600 leading-relaxed font-medium">
+        Pose the surface, move the playhead, then key each property. The surface holds its base pose while selected for editing.
+      </p>
+    </div>
+  );
+};
+
+export default AnimationPanel;
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { AudioLines, Mic, Film, VolumeX } from 'lucide-react';
+import { Shape, FillType, AudioBand } from '../types.ts';
+import { readAudioSignals, AudioSignals, SILENCE } from '../services/audioEngine.ts';
+
+interface AudioPanelProps {
+  shapes: Shape[];
+  input: string | null; // 'microphone', a video surface's id, or null when off
+  onInput: (input: string | null) => void;
+}
+
+const METERS: AudioBand[] = ['level', 'bass', 'mid', 'treble', 'beat'];
+
+const AudioPanel: React.FC<AudioPanelProps> = ({ shapes, input, onInput }) => {
+  const [signals, setSignals] = useState<AudioSignals>(SILENCE);
+  const videoShapes = shapes.filter(s => s.style.fillType === FillType.VIDEO && s.style.videoSrc);
+
+  // Live meters
+  useEffect(() => {
+    if (!input) { setSignals(SILENCE); return; }
+    let frame = 0;
+    const tick = () => { setSignals(readAudioSignals()); frame = requestAnimationFrame(tick); };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [input]);
+
+  const sourceButton = (value: string | null, label: React.ReactNode, key: string) => (
+    <button
+      key={key}
+      onClick={() => onInput(value)}
+      className={`flex items-center gap-2 w-full p-3 rounded-2xl border text-[10px] font-black uppercase tracking-wider transition-all ${input === value ? 'bg-emerald-500/10 border-emerald-500/50 text-white' : 'bg-slate-950 border-white/5 text-slate-400 hover:border-white/20'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="flex flex-col gap-4 animate-in fade-in duration-500">
+      <label className="text-[10px] text-slate-500 block uppercase font-black tracking-[0.2em] flex items-center gap-2">
+        <AudioLines className="w-3.5 h-3.5" /> Audio Input
+      </label>
+
+      <div className="flex flex-col gap-2">
+        {sourceButton(null, 'Off', 'off')}
+        {sourceButton('microphone', <><Mic className="w-4 h-4" /> Microphone</>, 'mic')}
+        {videoShapes.map(shape => sourceButton(shape.id, (
+          <>
+            <Film className="w-4 h-4" />
+            <span className="flex-1 text-left truncate">{shape.name}</span>
+            {shape.style.videoMuted !== false && <VolumeX className="w-3.5 h-3.5 text-slate-500" />}
+          </>
+        ), shape.id))}
+      </div>
+
+      <div className="bg-slate-950/50 p-4 rounded-2xl border border-white/5 space-y-2">
+        {METERS.map(band => (
+          <div key={band} className="flex items-center gap-3">
+            <span className="w-12 text-[8px] text-slate-500 uppercase font-black tracking-widest">{band}</span>
+            <div className="flex-1 h-2 bg-black rounded-full overflow-hidden">
+              <div
+                className={`h-full ${band === 'beat' ? 'bg-rose-500' : 'bg-emerald-500'}`}
+                style={{ width: `${Math.round(signals[band] * 100)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[9px] text-slate-600 leading-relaxed font-medium">
+        Surfaces with an Audio effect follow the selected band. Muted video is analysed silently.
+      </p>
+    </div>
+  );
+};
+
+export default AudioPanel;
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScanLine, Camera, Play, Square as SquareIcon, Images, PenTool } from 'lucide-react';
+import { CalibrationPattern, CalibrationMap } from '../types.ts';
+import { calibrationSequence, captureLuminance, solveCalibration, describePattern, CapturedFrame } from '../utils/structuredLight.ts';
+
+interface CalibrationPanelProps {
+  calibration: CalibrationMap | null;
+  onPattern: (pattern: CalibrationPattern | null) => void; // shows a pattern on every projector output
+  onSolved: (calibration: CalibrationMap) => void;
+  onTrace: () => void;
+}
+
+// Time for the projector to show a pattern and the camera's exposure to catch up
+const SETTLE_MS = 450;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ calibration, onPattern, onSolved, onTrace }) => {
+  const [cameraOn, setCameraOn] = useState(false);
+  const [progress, setProgress] = useState<{ step: number; label: string } | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const cancelled = useRef(false);
+  const sequence = calibrationSequence();
+
+  useEffect(() => {
+    if (!cameraOn) return;
+    let stream: MediaStream | null = null;
+    // The permission prompt can outlive the panel; a stream granted after cleanup is stopped at once
+    let released = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1280 } } })
+      .then(s => {
+        if (released) { s.getTracks().forEach(t => t.stop()); return; }
+        stream = s;
+        if (videoRef.current) { videoRef.current.srcObject = s; videoRef.current.play().catch(e => console.error("Camera preview blocked", e)); }
+      })
+      .catch(err => { if (released) return; alert("Camera Error: " + err.message); setCameraOn(false); });
+    return () => { released = true; stream?.getTracks().forEach(t => t.stop()); };
+  }, [cameraOn]);
+
+  // Leaving the panel mid-run stops the sequence and gives the projector back
+  useEffect(() => () => { cancelled.current = true; }, []);
+
+  const solve = (frames: CapturedFrame[]) => {
+    try {
+      onSolved(solveCalibration(frames));
+    } catch (e: any) { alert("Calibration Error: " + e.message); }
+  };
+
+  const runCapture = async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) { alert("Start the camera first."); return; }
+    cancelled.current = false;
+    const frames: CapturedFrame[] = [];
+    try {
+      for (let i = 0; i < sequence.length; i++) {
+        if (cancelled.current) return;
+        setProgress({ step: i, label: describePattern(sequence[i]) });
+        onPattern(sequence[i]);
+        await wait(SETTLE_MS);
+        frames.push(captureLuminance(video, video.videoWidth, video.videoHeight));
+      }
+    } finally {
+      onPattern(null);
+      setProgress(null);
+    }
+    solve(frames);
+  };
+
+  // Offline path: a folder of photos, one per pattern, named so they sort in capture order
+  const loadSequence = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(e.target.files ?? [])].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    e.target.value = '';
+    if (files.length === 0) return;
+    if (files.length !== sequence.length) { alert(`Calibration Error: Expected ${sequence.length} images, got ${files.length}.`); return; }
+    try {
+      const frames: CapturedFrame[] = [];
+      for (let i = 0; i < files.length; i++) {
+        setProgress({ step: i, label: files[i].name });
+        const bitmap = await createImageBitmap(files[i]);
+        frames.push(captureLuminance(bitmap, bitmap.width, bitmap.height));
+        bitmap.close();
+      }
+      solve(frames);
+    } catch (err: any) { alert("Calibration Error: " + err.message); }
+    finally { setProgress(null); }
+  };
+
+  return (
+    <div className="flex flex-col gap-4 animate-in fade-in duration-500">
+      <label className="text-[10px] text-slate-500 block uppercase font-black tracking-[0.2em] flex items-center gap-2">
+        <ScanLine className="w-3.5 h-3.5" /> Camera Calibration
+      </label>
+
+      <div className="bg-slate-950/50 p-4 rounded-2xl border border-white/5 space-y-3">
+        <video ref={videoRef} className={`w-full rounded-xl bg-black ${cameraOn ? '' : 'hidden'}`} muted playsInline />
+        <button
+          onClick={() => setCameraOn(!cameraOn)}
+          disabled={!!progress}
+          className={`w-full flex items-center justify-center gap-2 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30 ${cameraOn ? 'bg-white/10 text-white' : 'border border-cyan-500/50 text-cyan-300 hover:bg-cyan-500/10'}`}
+        >
+          <Camera className="w-3.5 h-3.5" /> {cameraOn ? 'Stop Camera' : 'Start Camera'}
+        </button>
+        {progress ? (
+          <>
+            <div className="h-2 bg-black rounded-full overflow-hidden">
+              <div className="h-full bg-cyan-500 transition-all" style={{ width: `${(progress.step + 1) / sequence.length * 100}%` }} />
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-[9px] text-slate-400 font-bold uppercase tracking-widest truncate">{progress.step + 1}/{sequence.length} · {progress.label}</span>
+              <button onClick={() => { cancelled.current = true; }} className="p-1.5 rounded-lg text-slate-400 hover:text-white" title="Cancel">
+                <SquareIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          </>
+        ) : (
+          <button
+            onClick={runCapture}
+            disabled={!cameraOn}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-cyan-600 text-white text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30"
+          >
+            <Play className="w-3.5 h-3.5" /> Project & Capture
+          </button>
+        )}
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={!!progress}
+          className="w-full flex items-center justify-center gap-2 py-2 rounded-xl border border-white/10 text-slate-400 text-[9px] font-black uppercase tracking-widest hover:bg-white/5 transition-all disabled:opacity-30"
+        >
+          <Images className="w-3.5 h-3.5" /> Load Image Sequence
+        </button>
+        <input ref={fileInput} type="file" accept="image/*" multiple className="hidden" onChange={loadSequence} />
+      </div>
+
+      {calibration && (
+        <div className="bg-slate-950/50 p-4 rounded-2xl border border-white/5 space-y-3">
+          <div className="flex justify-between text-[9px] font-black uppercase tracking-widest">
+            <span className="text-slate-500">Decoded</span>
+            <span className="text-cyan-400">{Math.round(calibration.coverage * 100)}% of camera view</span>
+          </div>
+          {!calibration.homography && (
+            <div className="text-[9px] text-amber-400 font-bold">No perspective fit: tracing works only where patterns were decoded.</div>
+          )}
+          <button onClick={onTrace} className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-cyan-600 text-white text-[10px] font-black uppercase tracking-widest transition-all">
+            <PenTool className="w-3.5 h-3.5" /> Trace Surfaces
+          </button>
+        </div>
+      )}
+
+      <p className="text-[9px] text-slate-600 leading-relaxed font-medium">
+        Open the projector output full screen, aim the camera at the whole projection and darken the room. The {sequence.length} Gray-code frames
+        (white, black, then each column and row bit followed by its inverse) are projected and captured in turn. An image sequence must
+        hold the same {sequence.length} frames, named so they sort in that order. Patterns are projected through the master keystone,
+        so the map and anything traced from it are in stage space: set the keystone first, and recalibrate after changing it.
+      </p>
+    </div>
+  );
+};
+
+export default CalibrationPanel;
@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Check, Undo2, Layers } from 'lucide-react';
+import { Point, CalibrationMap } from '../types.ts';
+import { cameraToStage } from '../utils/structuredLight.ts';
+
+interface CalibrationTracerProps {
+  calibration: CalibrationMap;
+  onAdd: (points: Point[]) => void; // a traced outline, already in stage coordinates
+  onClose: () => void;
+}
+
+// Clicking this close (in screen pixels) to the first point closes the outline
+const CLOSE_DISTANCE = 12;
+
+/**
+ * Full-screen tracer over the calibration camera image. Corners clicked on the
+ * camera view become surfaces in projector space through the solved map.
+ */
+const CalibrationTracer: React.FC<CalibrationTracerProps> = ({ calibration, onAdd, onClose }) => {
+  const [points, setPoints] = useState<Point[]>([]);
+  const [showCoverage, setShowCoverage] = useState(false);
+  const [traced, setTraced] = useState(0);
+  const imageCanvas = useRef<HTMLCanvasElement>(null);
+
+  // Reference image, optionally tinted where the patterns were decoded
+  useEffect(() => {
+    const canvas = imageCanvas.current;
+    if (!canvas) return;
+    canvas.width = calibration.width;
+    canvas.height = calibration.height;
+    const ctx = canvas.getContext('2d')!;
+    const image = new ImageData(new Uint8ClampedArray(calibration.reference.data), calibration.width, calibration.height);
+    if (showCoverage) {
+      for (let i = 0; i < calibration.u.length; i++) {
+        if (Number.isNaN(calibration.u[i])) continue;
+        image.data[i * 4] = image.data[i * 4] * 0.5;
+        image.data[i * 4 + 1] = image.data[i * 4 + 1] * 0.5 + 110;
+        image.data[i * 4 + 2] = image.data[i * 4 + 2] * 0.5 + 128;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }, [calibration, showCoverage]);
+
+  const finish = () => {
+    if (points.length < 3) return;
+    const stage = points.map(p => cameraToStage(calibration, p));
+    if (stage.some(p => !p)) { alert("Calibration Error: Some corners fall outside the calibrated area."); return; }
+    onAdd(stage as Point[]);
+    setPoints([]);
+    setTraced(traced + 1);
+  };
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const p = { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+    const first = points[0];
+    if (first && points.length >= 3 && Math.hypot((p.x - first.x) * rect.width, (p.y - first.y) * rect.height) < CLOSE_DISTANCE) {
+      finish();
+      return;
+    }
+    setPoints([...points, p]);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Enter') finish();
+      else if (e.key === 'Backspace') setPoints(prev => prev.slice(0, -1));
+      else if (e.key === 'Escape') { if (points.length) setPoints([]); else onClose(); }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/95 flex flex-col p-6 gap-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-black">Trace Surfaces</h2>
+          <p className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">
+            Click corners on the camera image · click the first corner or press Enter to finish · {traced} added
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => setShowCoverage(!showCoverage)} title="Show decoded area" className={`p-3 rounded-xl transition-all ${showCoverage ? 'bg-white/10 text-cyan-400' : 'hover:bg-white/10'}`}><Layers className="w-5 h-5"/></button>
+          <button onClick={() => setPoints(points.slice(0, -1))} disabled={points.length === 0} title="Remove last corner" className="p-3 rounded-xl hover:bg-white/10 transition-all disabled:opacity-30"><Undo2 className="w-5 h-5"/></button>
+          <button onClick={finish} disabled={points.length < 3} title="Add surface" className="p-3 rounded-xl bg-cyan-600 transition-all disabled:opacity-30"><Check className="w-5 h-5"/></button>
+          <button onClick={onClose} className="p-3 rounded-xl hover:bg-white/10 transition-all"><X className="w-5 h-5"/></button>
+        </div>
+      </div>
+      <div className="flex-1 min-h-0 flex items-center justify-center">
+        <div className="relative max-w-full max-h-full" style={{ aspectRatio: `${calibration.width} / ${calibration.height}`, height: '100%' }}>
+          <canvas ref={imageCanvas} className="absolute inset-0 w-full h-full rounded-2xl" style={{ imageRendering: 'pixelated' }} />
+          <svg className="absolute inset-0 w-full h-full cursor-crosshair" viewBox={`0 0 ${calibration.width} ${calibration.height}`} preserveAspectRatio="none" onClick={handleClick}>
+            {points.length > 1 && (
+              <polyline points={points.map(p => `${p.x * calibration.width},${p.y * calibration.height}`).join(' ')} fill="none" stroke="#22d3ee" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+            )}
+            {points.map((p, i) => (
+              <circle key={i} cx={p.x * calibration.width} cy={p.y * calibration.height} r={2.5} fill={i === 0 ? '#22d3ee' : '#ffffff'} />
+            ))}
+          </svg>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationTracer;
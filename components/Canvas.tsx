@@ -1,51 +1,172 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Shape, Point, EditorMode, EffectType, FillType, MappingMode } from '../types';
+import { Shape, Point, EditorMode, EffectType, FillType, MappingMode, EllipseGeometry, BezierEdge, MeshLattice, OutputRegion, Keystone, Guide, StrokeEffect, Cue, Transport, TempoClock, CalibrationPattern } from '../types';
+import {
+  squareToQuad, isAffine, ellipsePoint, ellipseHandles, dragEllipseHandle, EllipseHandle,
+  shapeEdgePoint, hasCurvedEdges, flattenOutline, quadSurfaceMap, createBezierEdge, edgeCount,
+  createMeshLattice, meshPoint, meshOutline, moveAttachedControls, transformShape, Affine
+} from '../utils/geometry';
+import { drawEdgeBlend, falloff } from '../utils/edgeBlend';
+import { isIdentityKeystone, keystonePoint, keystoneMeshHandle, outputToKeystoneMesh } from '../utils/keystone';
+import { snapPoint, SnapSettings, SnapResult } from '../utils/snapping';
+import { drawPattern as drawCalibrationPattern } from '../utils/structuredLight';
+import { evaluateCues, transportPosition } from '../utils/timeline';
+import { animateShape } from '../utils/keyframes';
+import { shiftHue } from '../utils/color';
+import { beatPhase } from '../utils/tempo';
+import { readAudioSignals, registerMediaElement, unregisterMediaElement, setMediaMuted, SILENCE } from '../services/audioEngine';
+
+// Grid resolution used to approximate projective warps with affine triangles
+const WARP_SUBDIVISIONS = 16;
+const ELLIPSE_SECTORS = 48;
+const ELLIPSE_RINGS = 8;
+const MESH_CELL_STEPS = 4;
+const PATTERN_TEXTURE_SIZE = 512;
+// Concentric erase passes approximating a feather's falloff curve
+const FEATHER_STEPS = 12;
+// Cells per side of the alignment grid shown while setting up the keystone
+const ALIGNMENT_GRID_CELLS = 8;
+// Editor rulers along the top and left edges, and how close a click must be to pick up a guide (pixels)
+const RULER_SIZE = 20;
+const GUIDE_GRAB_DISTANCE = 5;
+// Magnifier shown next to the cursor while dragging
+const LOUPE_RADIUS = 70;
+const LOUPE_ZOOM = 4;
+const LOUPE_OFFSET = 24;
+// Selection box: clearance around the selected surfaces and height of the rotate handle above it (pixels)
+const BOX_PADDING = 24;
+const ROTATE_HANDLE_OFFSET = 28;
+// Shift-rotate steps
+const ROTATE_SNAP = Math.PI / 12;
+
+type UVWarp = (u: number, v: number) => Point;
+
+type TransformHandle = 'move' | 'rotate' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'nw';
+
+interface Box { x: number; y: number; w: number; h: number }
+
+const AUDIO_EFFECTS = [EffectType.AUDIO_PULSE, EffectType.AUDIO_COLOR, EffectType.AUDIO_SCALE];
+
+// WARP effect: sinusoidal ripple of the sampled UVs, clamped to the source image
+const rippleUV = (u: number, v: number, time: number, speed: number): Point => {
+  const phase = time * (speed / 2000);
+  const amplitude = 0.025;
+  const waves = 3 * Math.PI * 2;
+  return {
+    x: Math.max(0, Math.min(1, u + amplitude * Math.sin(v * waves + phase))),
+    y: Math.max(0, Math.min(1, v + amplitude * Math.sin(u * waves + phase * 1.3)))
+  };
+};
 
 interface CanvasProps {
   shapes: Shape[];
-  selectedShapeId: string | null;
+  selectedShapeId: string | null; // the one surface whose points are being edited
+  selectedShapeIds?: string[]; // whole selection, which the transform box moves, scales, rotates and skews
   mode: EditorMode;
   showCamera: boolean;
   globalTestPattern: boolean;
   isProjector?: boolean;
+  output?: OutputRegion; // renders only this slice of the stage, with its edge blend applied
+  outputRegions?: OutputRegion[]; // editor overlay of every projector's slice and blend bands
+  show?: { cues: Cue[]; transport: Transport }; // a running cue list drives looks and the effect clock
+  tempo?: TempoClock; // beat clock for effects with a beatDivision
+  master?: number; // live dimmer (0..1) applied over every surface
+  proposals?: { points: Point[]; active: boolean }[]; // detected surfaces awaiting review, editor only
+  keystone?: Keystone; // master corner pin over the finished frame, applied when projecting or in KEYSTONE mode
+  calibrationPattern?: CalibrationPattern | null; // structured-light frame shown in place of the surfaces, still through the keystone
+  guides?: Guide[]; // ruler guides; editor only, rulers show whenever this is set
+  snap?: SnapSettings; // what dragged and drawn points snap to; unset turns snapping off
+  selectedVertices?: number[]; // picked vertices of the edited shape, dragged and nudged together
   currentDrawingPoints: Point[];
-  onPointsUpdate: (points: Point[], isClosed: boolean) => void;
+  onPointsUpdate: (points: Point[], isClosed: boolean, edges?: (BezierEdge | null)[]) => void;
   onModeChange: (mode: EditorMode) => void;
-  onSelectShape: (id: string | null) => void;
+  onSelectShapes: (ids: string[]) => void;
   onDrawingUpdate: (points: Point[]) => void;
+  onEllipseUpdate?: (ellipse: EllipseGeometry) => void;
+  onMeshUpdate?: (mesh: MeshLattice) => void;
+  onKeystoneUpdate?: (keystone: Keystone) => void;
+  onGuidesChange?: (guides: Guide[]) => void;
+  onSelectVertices?: (indices: number[]) => void;
+  onShapesTransform?: (shapes: Shape[]) => void; // the selected surfaces after a transform-box drag
+  onDragEnd?: () => void;
 }
 
 const Canvas: React.FC<CanvasProps> = ({ 
   shapes, 
   selectedShapeId, 
+  selectedShapeIds = [],
   mode, 
   showCamera, 
   globalTestPattern,
   isProjector = false,
+  output,
+  outputRegions,
+  show,
+  tempo,
+  master = 1,
+  proposals,
+  keystone,
+  calibrationPattern,
+  guides,
+  snap,
+  selectedVertices = [],
   currentDrawingPoints,
   onPointsUpdate, 
   onModeChange,
-  onSelectShape,
-  onDrawingUpdate
+  onSelectShapes,
+  onDrawingUpdate,
+  onEllipseUpdate,
+  onMeshUpdate,
+  onKeystoneUpdate,
+  onGuidesChange,
+  onSelectVertices,
+  onShapesTransform,
+  onDragEnd
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const videoElements = useRef<Map<string, HTMLVideoElement>>(new Map());
   const imageElements = useRef<Map<string, HTMLImageElement>>(new Map());
+  const patternTextures = useRef<Map<FillType, HTMLCanvasElement>>(new Map());
+  const featherLayer = useRef<HTMLCanvasElement | null>(null);
+  const keystoneLayer = useRef<HTMLCanvasElement | null>(null);
+  const loupeLayer = useRef<HTMLCanvasElement | null>(null);
   const animationRef = useRef<number>(0);
   const [mousePos, setMousePos] = useState<Point | null>(null);
   const [dragInfo, setDragInfo] = useState<{ 
     shapeId: string; 
     pointIndex: number; 
+    ellipseHandle?: EllipseHandle;
+    control?: { edge: number; key: 'c1' | 'c2' };
+    meshIndex?: number;
   } | null>(null);
+  const [keystoneDrag, setKeystoneDrag] = useState<{ kind: 'corner' | 'mesh'; index: number } | null>(null);
+  const [guideDrag, setGuideDrag] = useState<string | null>(null);
+  const [snapHit, setSnapHit] = useState<SnapResult | null>(null);
+  const [transformDrag, setTransformDrag] = useState<{
+    handle: TransformHandle;
+    start: Point; // pixels
+    box: Box;
+    originals: Shape[];
+    moved: boolean;
+    clickedId?: string; // surface pressed inside a multi-selection; a click without a drag narrows to it
+  } | null>(null);
+  const [marquee, setMarquee] = useState<{ start: Point; end: Point; additive: boolean } | null>(null);
+
+  // Stops a surface's video for good and takes it out of the audio graph
+  const releaseVideo = (id: string) => {
+    videoElements.current.get(id)?.pause();
+    videoElements.current.delete(id);
+    unregisterMediaElement(id);
+  };
 
   useEffect(() => {
     shapes.forEach(shape => {
-      if (shape.style.fillType === FillType.VIDEO && shape.style.videoSrc) {
+      // During a show any cue may switch a surface to its media, so load it up front
+      if ((shape.style.fillType === FillType.VIDEO || show) && shape.style.videoSrc) {
         let video = videoElements.current.get(shape.id);
         if (!video || video.src !== shape.style.videoSrc) {
-          if (video) video.pause();
+          if (video) releaseVideo(shape.id);
           video = document.createElement('video');
           video.src = shape.style.videoSrc;
           video.loop = true;
@@ -54,9 +175,18 @@ const Canvas: React.FC<CanvasProps> = ({
           video.crossOrigin = 'anonymous';
           video.play().catch(e => console.error("Auto-play blocked", e));
           videoElements.current.set(shape.id, video);
+          registerMediaElement(shape.id, video);
+        } else if (video.paused) {
+          video.play().catch(e => console.error("Auto-play blocked", e));
         }
+        // Only the editor window plays soundtracks, so two open windows never double up
+        if (!isProjector) setMediaMuted(video, shape.style.videoMuted !== false);
+      } else {
+        // Switched to another fill: hold the clip paused and silent in case it comes back
+        const video = videoElements.current.get(shape.id);
+        if (video && !video.paused) { video.pause(); setMediaMuted(video, true); }
       }
-      if (shape.style.fillType === FillType.IMAGE && shape.style.imageSrc) {
+      if ((shape.style.fillType === FillType.IMAGE || show) && shape.style.imageSrc) {
         let img = imageElements.current.get(shape.id);
         if (!img || img.src !== shape.style.imageSrc) {
           img = new Image();
@@ -68,9 +198,9 @@ const Canvas: React.FC<CanvasProps> = ({
     });
 
     const activeIds = new Set(shapes.map(s => s.id));
-    for (const id of videoElements.current.keys()) if (!activeIds.has(id)) videoElements.current.delete(id);
+    for (const id of videoElements.current.keys()) if (!activeIds.has(id)) releaseVideo(id);
     for (const id of imageElements.current.keys()) if (!activeIds.has(id)) imageElements.current.delete(id);
-  }, [shapes]);
+  }, [shapes, !!show]);
 
   useEffect(() => {
     if (!isProjector && showCamera && navigator.mediaDevices.getUserMedia) {
@@ -102,18 +232,54 @@ const Canvas: React.FC<CanvasProps> = ({
     y: p1.y + (p2.y - p1.y) * t
   });
 
+  // Bezier control handles with the vertex each one hangs off
+  const controlHandles = (shape: Shape) => {
+    const handles: { edge: number; key: 'c1' | 'c2'; pos: Point; anchor: Point }[] = [];
+    const n = shape.points.length;
+    shape.edges?.forEach((edge, i) => {
+      if (!edge || i >= edgeCount(shape)) return;
+      const start = shape.points[i], end = shape.points[(i + 1) % n];
+      handles.push({ edge: i, key: 'c1', pos: edge.c1, anchor: start });
+      if (edge.kind === 'cubic') handles.push({ edge: i, key: 'c2', pos: edge.c2, anchor: end });
+      else handles[handles.length - 1].anchor = lerp(start, end, 0.5);
+    });
+    return handles;
+  };
+
   const defineShapePath = (ctx: CanvasRenderingContext2D, shape: Shape, w: number, h: number) => {
+    if (shape.ellipse) {
+      // Radii scale per axis, then the curve rotates in pixels, matching ellipsePoint exactly
+      const { center, radiusX, radiusY, rotation } = shape.ellipse;
+      ctx.beginPath();
+      ctx.ellipse(center.x * w, center.y * h, radiusX * w, radiusY * h, rotation, 0, Math.PI * 2);
+      return;
+    }
     if (shape.points.length < 2) return;
     const p0 = toPixels(shape.points[0], w, h);
     ctx.beginPath();
     ctx.moveTo(p0.x, p0.y);
-    for (let i = 1; i < shape.points.length; i++) {
-      const p = toPixels(shape.points[i], w, h);
-      ctx.lineTo(p.x, p.y);
+    for (let i = 0; i < edgeCount(shape); i++) {
+      const p = toPixels(shape.points[(i + 1) % shape.points.length], w, h);
+      const edge = shape.edges?.[i];
+      if (edge?.kind === 'quadratic') {
+        const c = toPixels(edge.c1, w, h);
+        ctx.quadraticCurveTo(c.x, c.y, p.x, p.y);
+      } else if (edge?.kind === 'cubic') {
+        const c1 = toPixels(edge.c1, w, h), c2 = toPixels(edge.c2, w, h);
+        ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, p.x, p.y);
+      } else {
+        ctx.lineTo(p.x, p.y);
+      }
     }
     if (shape.isClosed) ctx.closePath();
   };
 
+  const shapeCenter = (shape: Shape, w: number, h: number): Point => {
+    if (shape.ellipse) return toPixels(shape.ellipse.center, w, h);
+    const sum = shape.points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
+    return toPixels({ x: sum.x / shape.points.length, y: sum.y / shape.points.length }, w, h);
+  };
+
   const getShapeBoundsPixels = (shape: Shape, w: number, h: number) => {
     let minX = w, minY = h, maxX = 0, maxY = 0;
     shape.points.forEach(p => {
@@ -131,10 +297,18 @@ const Canvas: React.FC<CanvasProps> = ({
     d0: Point, d1: Point, d2: Point
   ) => {
     ctx.save();
+    // Inflate the clip slightly so neighbouring triangles overlap and no seams show
+    const cx = (d0.x + d1.x + d2.x) / 3;
+    const cy = (d0.y + d1.y + d2.y) / 3;
+    const inflate = (p: Point) => {
+      const len = Math.hypot(p.x - cx, p.y - cy) || 1;
+      return { x: p.x + ((p.x - cx) / len) * 0.75, y: p.y + ((p.y - cy) / len) * 0.75 };
+    };
+    const c0 = inflate(d0), c1 = inflate(d1), c2 = inflate(d2);
     ctx.beginPath();
-    ctx.moveTo(d0.x, d0.y);
-    ctx.lineTo(d1.x, d1.y);
-    ctx.lineTo(d2.x, d2.y);
+    ctx.moveTo(c0.x, c0.y);
+    ctx.lineTo(c1.x, c1.y);
+    ctx.lineTo(c2.x, c2.y);
     ctx.closePath();
     ctx.clip();
 
@@ -148,76 +322,244 @@ const Canvas: React.FC<CanvasProps> = ({
     const e = d0.x - a * s0.x - c * s0.y;
     const f = d0.y - b * s0.x - d * s0.y;
 
-    ctx.setTransform(a, b, c, d, e, f);
+    // Composes with the output-region transform the frame is drawn under
+    ctx.transform(a, b, c, d, e, f);
     ctx.drawImage(img, 0, 0);
     ctx.restore();
   };
 
-  const drawWarpedImage = (ctx: CanvasRenderingContext2D, img: CanvasImageSource, shape: Shape, w: number, h: number) => {
+  // Draws img through a (u, v) lattice: dest maps the cell corners to pixels,
+  // src picks the normalized image coordinate sampled at that corner.
+  const drawImageMesh = (
+    ctx: CanvasRenderingContext2D,
+    img: CanvasImageSource,
+    cols: number, rows: number,
+    dest: (u: number, v: number) => Point,
+    src: (u: number, v: number) => Point
+  ) => {
     const iw = img instanceof HTMLVideoElement ? img.videoWidth : (img as HTMLImageElement).width;
     const ih = img instanceof HTMLVideoElement ? img.videoHeight : (img as HTMLImageElement).height;
-    if (iw === 0 || ih === 0 || shape.points.length < 3) return;
+    if (iw === 0 || ih === 0) return;
+    const srcPx = (u: number, v: number) => { const uv = src(u, v); return { x: uv.x * iw, y: uv.y * ih }; };
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const u0 = col / cols, u1 = (col + 1) / cols;
+        const v0 = row / rows, v1 = (row + 1) / rows;
+
+        const s0 = srcPx(u0, v0), s1 = srcPx(u1, v0), s2 = srcPx(u1, v1), s3 = srcPx(u0, v1);
+        const d0 = dest(u0, v0), d1 = dest(u1, v0), d2 = dest(u1, v1), d3 = dest(u0, v1);
 
-    if (shape.points.length === 4) {
-      const s0 = { x: 0, y: 0 };
-      const s1 = { x: iw, y: 0 };
-      const s2 = { x: iw, y: ih };
-      const s3 = { x: 0, y: ih };
+        drawTriangle(ctx, img, s0, s1, s2, d0, d1, d2);
+        drawTriangle(ctx, img, s0, s2, s3, d0, d2, d3);
+      }
+    }
+  };
 
-      const d0 = toPixels(shape.points[0], w, h);
-      const d1 = toPixels(shape.points[1], w, h);
-      const d2 = toPixels(shape.points[2], w, h);
-      const d3 = toPixels(shape.points[3], w, h);
+  const drawWarpedImage = (ctx: CanvasRenderingContext2D, img: CanvasImageSource, shape: Shape, w: number, h: number, uvWarp?: UVWarp) => {
+    if (shape.points.length < 3) return;
+    const warp = uvWarp ?? ((u: number, v: number) => ({ x: u, y: v }));
+    const discUV = (u: number, v: number) => {
+      const angle = u * Math.PI * 2;
+      return warp(Math.cos(angle) * 0.5 * v + 0.5, Math.sin(angle) * 0.5 * v + 0.5);
+    };
 
-      drawTriangle(ctx, img, s0, s1, s2, d0, d1, d2);
-      drawTriangle(ctx, img, s0, s2, s3, d0, d2, d3);
+    if (shape.ellipse) {
+      // Polar mapping: u sweeps the angle, v the radius, sampling the image's inscribed disc
+      const ellipse = shape.ellipse;
+      drawImageMesh(ctx, img, ELLIPSE_SECTORS, ELLIPSE_RINGS,
+        (u, v) => toPixels(ellipsePoint(ellipse, w / h, u * Math.PI * 2, v), w, h),
+        discUV
+      );
+    } else if (shape.points.length === 4) {
+      // Projective mapping: subdivide the unit square and draw each cell as two
+      // affine triangles so straight lines stay straight across the whole quad.
+      // Curved edges bend the lattice and are clipped to the exact outline.
+      const curved = hasCurvedEdges(shape);
+      const surface = quadSurfaceMap(shape);
+      const n = isAffine(squareToQuad(shape.points)) && !uvWarp && !curved ? 1 : WARP_SUBDIVISIONS;
+      if (curved) { defineShapePath(ctx, shape, w, h); ctx.clip(); }
+      drawImageMesh(ctx, img, n, n, (u, v) => toPixels(surface(u, v), w, h), warp);
     } else {
+      // Centroid fan: u walks the perimeter, v runs from the centroid out to the edge,
+      // and the image is sampled from the matching disc around its center.
+      const count = shape.points.length;
       const centroidNorm = shape.points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
-      centroidNorm.x /= shape.points.length;
-      centroidNorm.y /= shape.points.length;
-
+      centroidNorm.x /= count;
+      centroidNorm.y /= count;
       const cPx = toPixels(centroidNorm, w, h);
-      const cUV = { x: iw / 2, y: ih / 2 };
+      const steps = uvWarp ? 4 : 1;
+      const edgeSteps = hasCurvedEdges(shape) ? Math.max(steps, 8) : steps;
 
-      for (let i = 0; i < shape.points.length; i++) {
-        const p1 = shape.points[i];
-        const p2 = shape.points[(i + 1) % shape.points.length];
-        
-        const angle1 = (i / shape.points.length) * Math.PI * 2;
-        const angle2 = ((i + 1) / shape.points.length) * Math.PI * 2;
+      drawImageMesh(ctx, img, count * edgeSteps, steps,
+        (u, v) => {
+          const segment = u * count;
+          const idx = Math.min(Math.floor(segment), count - 1);
+          const edge = shapeEdgePoint(shape, idx, segment - idx);
+          return lerp(cPx, toPixels(edge, w, h), v);
+        },
+        discUV
+      );
+    }
+  };
 
-        const uv1 = {
-          x: (Math.cos(angle1) * 0.5 + 0.5) * iw,
-          y: (Math.sin(angle1) * 0.5 + 0.5) * ih
-        };
-        const uv2 = {
-          x: (Math.cos(angle2) * 0.5 + 0.5) * iw,
-          y: (Math.sin(angle2) * 0.5 + 0.5) * ih
-        };
+  // MASK mapping: content keeps its screen-aligned bounding box and is clipped by the shape
+  const drawMaskedImage = (ctx: CanvasRenderingContext2D, img: CanvasImageSource, shape: Shape, w: number, h: number, uvWarp?: UVWarp) => {
+    defineShapePath(ctx, shape, w, h);
+    ctx.clip();
+    const bounds = getShapeBoundsPixels(shape, w, h);
+    if (!uvWarp) {
+      ctx.drawImage(img, bounds.x, bounds.y, bounds.w, bounds.h);
+      return;
+    }
+    drawImageMesh(ctx, img, WARP_SUBDIVISIONS, WARP_SUBDIVISIONS,
+      (u, v) => ({ x: bounds.x + u * bounds.w, y: bounds.y + v * bounds.h }),
+      uvWarp
+    );
+  };
 
-        drawTriangle(ctx, img, cUV, uv1, uv2, cPx, toPixels(p1, w, h), toPixels(p2, w, h));
+  const getPatternTexture = (fillType: FillType) => {
+    let texture = patternTextures.current.get(fillType);
+    if (texture) return texture;
+    texture = document.createElement('canvas');
+    texture.width = texture.height = PATTERN_TEXTURE_SIZE;
+    const tctx = texture.getContext('2d')!;
+    if (fillType === FillType.CHECKERBOARD) {
+      const size = PATTERN_TEXTURE_SIZE / 8;
+      for (let x = 0; x < 8; x++) {
+        for (let y = 0; y < 8; y++) {
+          tctx.fillStyle = (x + y) % 2 === 0 ? '#fff' : '#000';
+          tctx.fillRect(x * size, y * size, size, size);
+        }
       }
+    } else {
+      const spacing = PATTERN_TEXTURE_SIZE / 12;
+      tctx.strokeStyle = '#ffffff';
+      tctx.lineWidth = 4;
+      tctx.beginPath();
+      for (let i = 0; i <= 12; i++) {
+        tctx.moveTo(i * spacing, 0); tctx.lineTo(i * spacing, PATTERN_TEXTURE_SIZE);
+        tctx.moveTo(0, i * spacing); tctx.lineTo(PATTERN_TEXTURE_SIZE, i * spacing);
+      }
+      tctx.stroke();
+    }
+    patternTextures.current.set(fillType, texture);
+    return texture;
+  };
+
+  const getReadyAsset = (shape: Shape): CanvasImageSource | null => {
+    const asset = shape.style.fillType === FillType.VIDEO ? videoElements.current.get(shape.id) : imageElements.current.get(shape.id);
+    const isReady = asset instanceof HTMLVideoElement ? asset.readyState >= 2 : (asset as HTMLImageElement)?.complete;
+    return isReady && asset ? asset : null;
+  };
+
+  // MESH mapping: the lattice itself is the surface, every fill is interpolated through it
+  const getMesh = (shape: Shape) => shape.mesh ?? createMeshLattice(shape);
+
+  // The visible boundary of a surface: the lattice rim in MESH mode, otherwise the shape outline
+  const defineSurfacePath = (ctx: CanvasRenderingContext2D, shape: Shape, w: number, h: number) => {
+    if (shape.style.mappingMode !== MappingMode.MESH) { defineShapePath(ctx, shape, w, h); return; }
+    ctx.beginPath();
+    meshOutline(getMesh(shape)).forEach((p, i) => { const px = toPixels(p, w, h); i === 0 ? ctx.moveTo(px.x, px.y) : ctx.lineTo(px.x, px.y); });
+    ctx.closePath();
+  };
+
+  const drawMeshSurface = (ctx: CanvasRenderingContext2D, shape: Shape, w: number, h: number, uvWarp?: UVWarp) => {
+    const mesh = getMesh(shape);
+    const { fillType } = shape.style;
+    const outline = () => defineSurfacePath(ctx, shape, w, h);
+
+    const img = fillType === FillType.VIDEO || fillType === FillType.IMAGE ? getReadyAsset(shape)
+      : fillType === FillType.SOLID ? null
+      : getPatternTexture(fillType);
+    if (!img) {
+      if (fillType !== FillType.SOLID) ctx.fillStyle = '#111';
+      outline();
+      ctx.fill();
+      return;
+    }
+    drawImageMesh(ctx, img, (mesh.columns - 1) * MESH_CELL_STEPS, (mesh.rows - 1) * MESH_CELL_STEPS,
+      (u, v) => toPixels(meshPoint(mesh, u, v), w, h),
+      uvWarp ?? ((u, v) => ({ x: u, y: v }))
+    );
+  };
+
+  /**
+   * Draws a surface through an offscreen layer whose rim is erased with
+   * concentric strokes, so every fill type fades out the same way. A point
+   * d pixels inside the outline sits under every stroke wider than 2d; the
+   * per-stroke alphas are chosen so those passes multiply out to the curve.
+   */
+  const drawFeathered = (ctx: CanvasRenderingContext2D, shape: Shape, time: number, w: number, h: number) => {
+    const canvas = ctx.canvas;
+    if (!featherLayer.current) featherLayer.current = document.createElement('canvas');
+    const layer = featherLayer.current;
+    if (layer.width !== canvas.width || layer.height !== canvas.height) { layer.width = canvas.width; layer.height = canvas.height; }
+    const lctx = layer.getContext('2d');
+    if (!lctx) return;
+
+    lctx.setTransform(1, 0, 0, 1, 0, 0);
+    lctx.clearRect(0, 0, layer.width, layer.height);
+    lctx.setTransform(ctx.getTransform());
+    lctx.globalAlpha = 1;
+    lctx.fillStyle = ctx.fillStyle;
+    drawPattern(lctx, shape, time, w, h);
+
+    const radius = (shape.style.feather ?? 0) * Math.min(w, h);
+    const curve = shape.style.featherCurve ?? 'smoothstep';
+    lctx.save();
+    lctx.globalCompositeOperation = 'destination-out';
+    lctx.lineJoin = 'round';
+    let inner = 1;
+    for (let k = FEATHER_STEPS; k >= 1; k--) {
+      const level = falloff(curve, (k - 0.5) / FEATHER_STEPS);
+      defineSurfacePath(lctx, shape, w, h);
+      lctx.lineWidth = 2 * radius * k / FEATHER_STEPS;
+      lctx.strokeStyle = `rgba(0, 0, 0, ${1 - Math.min(1, level / inner)})`;
+      lctx.stroke();
+      inner = level;
     }
+    lctx.restore();
+
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(layer, 0, 0);
+    ctx.restore();
   };
 
   const drawPattern = (ctx: CanvasRenderingContext2D, shape: Shape, time: number, w: number, h: number) => {
     const { fillType, mappingMode } = shape.style;
+    const uvWarp: UVWarp | undefined = shape.style.effect === EffectType.WARP
+      ? (u, v) => rippleUV(u, v, time, shape.style.effectSpeed)
+      : undefined;
+
+    if (mappingMode === MappingMode.MESH && shape.points.length >= 3) {
+      ctx.save();
+      drawMeshSurface(ctx, shape, w, h, uvWarp);
+      ctx.restore();
+      return;
+    }
     if (fillType === FillType.SOLID) { defineShapePath(ctx, shape, w, h); ctx.fill(); return; }
 
     ctx.save();
+
+    // WARP on test patterns: render them as a texture so they ripple like media
+    if (uvWarp && (fillType === FillType.GRID || fillType === FillType.CHECKERBOARD) && shape.points.length >= 3) {
+      const texture = getPatternTexture(fillType);
+      if (mappingMode === MappingMode.STRETCH) drawWarpedImage(ctx, texture, shape, w, h, uvWarp);
+      else drawMaskedImage(ctx, texture, shape, w, h, uvWarp);
+      ctx.restore();
+      return;
+    }
     
     if (fillType === FillType.VIDEO || fillType === FillType.IMAGE) {
-      const asset = fillType === FillType.VIDEO ? videoElements.current.get(shape.id) : imageElements.current.get(shape.id);
-      const isReady = asset instanceof HTMLVideoElement ? asset.readyState >= 2 : (asset as HTMLImageElement)?.complete;
+      const asset = getReadyAsset(shape);
 
-      if (isReady && asset) {
+      if (asset) {
         if (mappingMode === MappingMode.STRETCH) {
-          drawWarpedImage(ctx, asset, shape, w, h);
+          drawWarpedImage(ctx, asset, shape, w, h, uvWarp);
         } else {
-          defineShapePath(ctx, shape, w, h);
-          ctx.clip();
-          const bounds = getShapeBoundsPixels(shape, w, h);
-          ctx.drawImage(asset, bounds.x, bounds.y, bounds.w, bounds.h);
+          drawMaskedImage(ctx, asset, shape, w, h, uvWarp);
         }
       } else {
         ctx.fillStyle = '#111';
@@ -232,13 +574,12 @@ const Canvas: React.FC<CanvasProps> = ({
         ctx.shadowBlur = 10;
         ctx.shadowColor = '#FFFFFF44';
         
+        const quadMap = shape.points.length === 4 ? quadSurfaceMap(shape) : null;
         const mapUVtoXY = (u: number, v: number) => {
-          if (shape.points.length === 4) {
-            const p0 = shape.points[0]; const p1 = shape.points[1];
-            const p2 = shape.points[2]; const p3 = shape.points[3];
-            const top = lerp(p0, p1, u);
-            const bottom = lerp(p3, p2, u);
-            return lerp(top, bottom, v);
+          if (shape.ellipse) {
+            return ellipsePoint(shape.ellipse, w / h, u * Math.PI * 2, v);
+          } else if (quadMap) {
+            return quadMap(u, v);
           } else {
             const centroid = shape.points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 });
             centroid.x /= shape.points.length; centroid.y /= shape.points.length;
@@ -246,9 +587,8 @@ const Canvas: React.FC<CanvasProps> = ({
             const angle = u * Math.PI * 2;
             const segment = (u * shape.points.length);
             const idx = Math.floor(segment) % shape.points.length;
-            const nextIdx = (idx + 1) % shape.points.length;
             const t = segment - Math.floor(segment);
-            const edgePoint = lerp(shape.points[idx], shape.points[nextIdx], t);
+            const edgePoint = shapeEdgePoint(shape, idx, t);
             return lerp(centroid, edgePoint, v);
           }
         };
@@ -260,7 +600,10 @@ const Canvas: React.FC<CanvasProps> = ({
         for (let i = 0; i <= divisions; i++) {
           const u = i / divisions;
           ctx.moveTo(toPixels(mapUVtoXY(u, 0), w, h).x, toPixels(mapUVtoXY(u, 0), w, h).y);
-          ctx.lineTo(toPixels(mapUVtoXY(u, 1), w, h).x, toPixels(mapUVtoXY(u, 1), w, h).y);
+          for(let j=1; j<=divisions; j++) {
+            const p = toPixels(mapUVtoXY(u, j/divisions), w, h);
+            ctx.lineTo(p.x, p.y);
+          }
           
           const v = i / divisions;
           ctx.moveTo(toPixels(mapUVtoXY(0, v), w, h).x, toPixels(mapUVtoXY(0, v), w, h).y);
@@ -294,34 +637,430 @@ const Canvas: React.FC<CanvasProps> = ({
     ctx.restore();
   };
 
+  // Projected outline: inside/outside alignment doubles the width and clips away the other half
+  const drawOutline = (ctx: CanvasRenderingContext2D, shape: Shape, time: number, w: number, h: number) => {
+    const { strokeColor, strokeWidth, strokeDash = 'solid', strokeGlow = 0, strokeEffect = StrokeEffect.NONE, strokeSpeed = 5 } = shape.style;
+    const align = shape.isClosed ? shape.style.strokeAlign ?? 'center' : 'center';
+    const chase = strokeEffect === StrokeEffect.CHASE;
+
+    ctx.save();
+    if (align !== 'center') {
+      defineSurfacePath(ctx, shape, w, h);
+      if (align === 'outside') { ctx.rect(-w, -h, w * 3, h * 3); ctx.clip('evenodd'); }
+      else ctx.clip();
+    }
+
+    const dash = strokeDash === 'dotted' ? [0, strokeWidth * 2]
+      : strokeDash === 'dashed' || chase ? [strokeWidth * 4, strokeWidth * 3]
+      : [];
+    ctx.setLineDash(dash);
+    if (chase) ctx.lineDashOffset = -time * strokeSpeed * strokeWidth / 400;
+
+    defineSurfacePath(ctx, shape, w, h);
+    ctx.strokeStyle = strokeColor;
+    ctx.lineWidth = align === 'center' ? strokeWidth : strokeWidth * 2;
+    ctx.lineJoin = 'round';
+    ctx.lineCap = strokeDash === 'dotted' ? 'round' : 'butt';
+    if (strokeGlow > 0) { ctx.shadowBlur = strokeGlow; ctx.shadowColor = strokeColor; }
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  const renderSurface = (ctx: CanvasRenderingContext2D, shape: Shape, time: number, w: number, h: number) => {
+    if ((shape.style.feather ?? 0) > 0 && shape.points.length >= 3) drawFeathered(ctx, shape, time, w, h);
+    else drawPattern(ctx, shape, time, w, h);
+    if (shape.style.strokeWidth > 0) drawOutline(ctx, shape, time, w, h);
+  };
+
+  // Frames each projector's slice and shades the bands it blends across
+  const drawOutputRegions = (ctx: CanvasRenderingContext2D, regions: OutputRegion[], w: number, h: number) => {
+    ctx.save();
+    regions.forEach((region, i) => {
+      const x = region.x * w, y = region.y * h, rw = region.width * w, rh = region.height * h;
+      const { left, right, top, bottom } = region.blend;
+      ctx.fillStyle = '#f59e0b22';
+      if (left > 0) ctx.fillRect(x, y, left * rw, rh);
+      if (right > 0) ctx.fillRect(x + rw - right * rw, y, right * rw, rh);
+      if (top > 0) ctx.fillRect(x, y, rw, top * rh);
+      if (bottom > 0) ctx.fillRect(x, y + rh - bottom * rh, rw, bottom * rh);
+      ctx.strokeStyle = '#f59e0b';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([12, 6]);
+      ctx.lineDashOffset = i * 9;
+      ctx.strokeRect(x + 1, y + 1, rw - 2, rh - 2);
+      ctx.fillStyle = '#f59e0b';
+      ctx.font = 'bold 11px Inter';
+      ctx.textAlign = 'left';
+      ctx.fillText(region.name.toUpperCase(), x + 12, y + 22 + i * 16);
+    });
+    ctx.restore();
+  };
+
+  // Lines every eighth of the frame plus its diagonals, so bowing and skew are easy to see on the wall
+  const drawAlignmentGrid = (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+    ctx.save();
+    ctx.beginPath();
+    for (let i = 0; i <= ALIGNMENT_GRID_CELLS; i++) {
+      const x = Math.min(w - 1, i / ALIGNMENT_GRID_CELLS * w) + 0.5, y = Math.min(h - 1, i / ALIGNMENT_GRID_CELLS * h) + 0.5;
+      ctx.moveTo(x, 0); ctx.lineTo(x, h);
+      ctx.moveTo(0, y); ctx.lineTo(w, y);
+    }
+    ctx.moveTo(0, 0); ctx.lineTo(w, h);
+    ctx.moveTo(w, 0); ctx.lineTo(0, h);
+    ctx.strokeStyle = '#ffffffaa';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(w / 2, h / 2, Math.min(w, h) / 4, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.restore();
+  };
+
+  // Re-draws the finished frame through the corner pin (and lattice), as with a mesh-mapped surface
+  const applyKeystone = (ctx: CanvasRenderingContext2D, frame: HTMLCanvasElement, keystone: Keystone, w: number, h: number) => {
+    if (!keystoneLayer.current) keystoneLayer.current = document.createElement('canvas');
+    const layer = keystoneLayer.current;
+    if (layer.width !== w || layer.height !== h) { layer.width = w; layer.height = h; }
+    const layerCtx = layer.getContext('2d')!;
+    layerCtx.clearRect(0, 0, w, h);
+    layerCtx.drawImage(frame, 0, 0);
+    ctx.clearRect(0, 0, w, h);
+    drawImageMesh(ctx, layer, WARP_SUBDIVISIONS, WARP_SUBDIVISIONS,
+      (u, v) => toPixels(keystonePoint(keystone, u, v), w, h),
+      (u, v) => ({ x: u, y: v }));
+  };
+
+  const drawKeystoneHandles = (ctx: CanvasRenderingContext2D, keystone: Keystone, w: number, h: number) => {
+    ctx.save();
+    if (keystone.mesh) {
+      const { columns, rows, points } = keystone.mesh;
+      ctx.beginPath();
+      for (let r = 0; r < rows; r++) {
+        for (let c = 0; c < columns; c++) {
+          const p = toPixels(keystoneMeshHandle(keystone, points[r * columns + c]), w, h);
+          if (c > 0) { const q = toPixels(keystoneMeshHandle(keystone, points[r * columns + c - 1]), w, h); ctx.moveTo(q.x, q.y); ctx.lineTo(p.x, p.y); }
+          if (r > 0) { const q = toPixels(keystoneMeshHandle(keystone, points[(r - 1) * columns + c]), w, h); ctx.moveTo(q.x, q.y); ctx.lineTo(p.x, p.y); }
+        }
+      }
+      ctx.strokeStyle = '#facc1588'; ctx.lineWidth = 1; ctx.stroke();
+      points.forEach((p, i) => {
+        if (isLatticeCorner(keystone, i) || (keystoneDrag?.kind === 'mesh' && keystoneDrag.index === i)) return;
+        const px = toPixels(keystoneMeshHandle(keystone, p), w, h);
+        ctx.beginPath(); ctx.arc(px.x, px.y, 6, 0, Math.PI * 2);
+        ctx.fillStyle = '#facc15'; ctx.fill();
+        ctx.strokeStyle = '#000'; ctx.lineWidth = 1.5; ctx.stroke();
+      });
+    }
+    const corners = keystone.corners.map(c => toPixels(c, w, h));
+    ctx.beginPath();
+    corners.forEach((c, i) => i === 0 ? ctx.moveTo(c.x, c.y) : ctx.lineTo(c.x, c.y));
+    ctx.closePath();
+    ctx.strokeStyle = '#f59e0b'; ctx.lineWidth = 2; ctx.setLineDash([12, 6]); ctx.stroke();
+    ctx.setLineDash([]);
+    corners.forEach((c, i) => {
+      if (keystoneDrag?.kind === 'corner' && keystoneDrag.index === i) return;
+      ctx.beginPath(); ctx.arc(c.x, c.y, 12, 0, Math.PI * 2);
+      ctx.fillStyle = '#f59e0b'; ctx.fill();
+      ctx.strokeStyle = '#fff'; ctx.lineWidth = 2; ctx.stroke();
+    });
+    ctx.restore();
+  };
+
+  // Lattice corners stay pinned to the keystone corners, which carry their own handles
+  const isLatticeCorner = (keystone: Keystone, i: number) => {
+    const { columns, rows } = keystone.mesh!;
+    const c = i % columns, r = Math.floor(i / columns);
+    return (c === 0 || c === columns - 1) && (r === 0 || r === rows - 1);
+  };
+
+  // Snap grid, guides, rulers and the snap indicator; drawn in stage space over the editor view
+  const drawEditorAids = (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+    ctx.save();
+    if (snap?.grid) {
+      ctx.beginPath();
+      for (let i = 1; i < snap.gridDivisions; i++) {
+        const x = Math.round(i / snap.gridDivisions * w) + 0.5, y = Math.round(i / snap.gridDivisions * h) + 0.5;
+        ctx.moveTo(x, 0); ctx.lineTo(x, h);
+        ctx.moveTo(0, y); ctx.lineTo(w, y);
+      }
+      ctx.strokeStyle = '#ffffff14'; ctx.lineWidth = 1; ctx.stroke();
+    }
+
+    if (guides) {
+      guides.forEach(g => {
+        const at = Math.round(g.position * (g.axis === 'x' ? w : h)) + 0.5;
+        ctx.beginPath();
+        if (g.axis === 'x') { ctx.moveTo(at, 0); ctx.lineTo(at, h); } else { ctx.moveTo(0, at); ctx.lineTo(w, at); }
+        ctx.strokeStyle = g.id === guideDrag ? '#22d3ee' : '#22d3ee99'; ctx.lineWidth = 1; ctx.stroke();
+        if (g.id === guideDrag) {
+          ctx.fillStyle = '#22d3ee';
+          ctx.font = 'bold 10px Inter';
+          ctx.textAlign = 'left';
+          const label = `${(g.position * 100).toFixed(1)}%`;
+          if (g.axis === 'x') ctx.fillText(label, at + 6, RULER_SIZE + 14); else ctx.fillText(label, RULER_SIZE + 6, at - 6);
+        }
+      });
+
+      // Rulers: a tick every 5% of the stage, labelled every 10%
+      ctx.fillStyle = '#18181bee';
+      ctx.fillRect(0, 0, w, RULER_SIZE);
+      ctx.fillRect(0, 0, RULER_SIZE, h);
+      ctx.beginPath();
+      for (let i = 1; i < 20; i++) {
+        const x = Math.round(i / 20 * w) + 0.5, y = Math.round(i / 20 * h) + 0.5;
+        const length = i % 2 === 0 ? RULER_SIZE / 2 : RULER_SIZE / 4;
+        ctx.moveTo(x, RULER_SIZE); ctx.lineTo(x, RULER_SIZE - length);
+        ctx.moveTo(RULER_SIZE, y); ctx.lineTo(RULER_SIZE - length, y);
+      }
+      ctx.strokeStyle = '#71717a'; ctx.lineWidth = 1; ctx.stroke();
+      ctx.fillStyle = '#71717a';
+      ctx.font = 'bold 8px Inter';
+      ctx.textAlign = 'left';
+      for (let i = 2; i < 20; i += 2) {
+        ctx.fillText(String(i * 5), i / 20 * w + 3, 9);
+        ctx.fillText(String(i * 5), 2, i / 20 * h - 3);
+      }
+    }
+
+    if (snapHit && (dragInfo || mode === 'DRAWING')) {
+      const px = toPixels(snapHit.point, w, h);
+      ctx.strokeStyle = '#f472b6';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      if (snapHit.kind === 'vertex') ctx.arc(px.x, px.y, 11, 0, Math.PI * 2);
+      else if (snapHit.kind === 'edge') { ctx.moveTo(px.x, px.y - 9); ctx.lineTo(px.x + 9, px.y); ctx.lineTo(px.x, px.y + 9); ctx.lineTo(px.x - 9, px.y); ctx.closePath(); }
+      else { ctx.moveTo(px.x - 12, px.y); ctx.lineTo(px.x + 12, px.y); ctx.moveTo(px.x, px.y - 12); ctx.lineTo(px.x, px.y + 12); }
+      ctx.stroke();
+    }
+    ctx.restore();
+  };
+
+  // Magnified, unsmoothed view of the frame around the cursor, so a point can be placed to the pixel
+  const drawLoupe = (ctx: CanvasRenderingContext2D, frame: HTMLCanvasElement, at: Point) => {
+    if (!loupeLayer.current) loupeLayer.current = document.createElement('canvas');
+    const layer = loupeLayer.current;
+    const size = LOUPE_RADIUS * 2;
+    if (layer.width !== size) { layer.width = size; layer.height = size; }
+    const layerCtx = layer.getContext('2d')!;
+    const span = size / LOUPE_ZOOM;
+    layerCtx.imageSmoothingEnabled = false;
+    layerCtx.fillStyle = '#000';
+    layerCtx.fillRect(0, 0, size, size);
+    layerCtx.drawImage(frame, at.x - span / 2, at.y - span / 2, span, span, 0, 0, size, size);
+
+    // Up and to the right of the cursor, flipped away from the frame edges
+    const cx = at.x + LOUPE_OFFSET + size > frame.width ? at.x - LOUPE_OFFSET - LOUPE_RADIUS : at.x + LOUPE_OFFSET + LOUPE_RADIUS;
+    const cy = at.y - LOUPE_OFFSET - size < 0 ? at.y + LOUPE_OFFSET + LOUPE_RADIUS : at.y - LOUPE_OFFSET - LOUPE_RADIUS;
+    ctx.save();
+    ctx.beginPath();
+    ctx.arc(cx, cy, LOUPE_RADIUS, 0, Math.PI * 2);
+    ctx.clip();
+    ctx.drawImage(layer, cx - LOUPE_RADIUS, cy - LOUPE_RADIUS);
+    ctx.beginPath();
+    ctx.moveTo(cx - LOUPE_RADIUS, cy + 0.5); ctx.lineTo(cx + LOUPE_RADIUS, cy + 0.5);
+    ctx.moveTo(cx + 0.5, cy - LOUPE_RADIUS); ctx.lineTo(cx + 0.5, cy + LOUPE_RADIUS);
+    ctx.strokeStyle = '#f472b6aa'; ctx.lineWidth = 1; ctx.stroke();
+    ctx.restore();
+    ctx.beginPath();
+    ctx.arc(cx, cy, LOUPE_RADIUS, 0, Math.PI * 2);
+    ctx.strokeStyle = '#ffffff'; ctx.lineWidth = 2; ctx.stroke();
+  };
+
+  // Snapped position of a dragged or drawn point; holding Alt places it freely
+  const snapAt = (p: Point, altKey: boolean, w: number, h: number, excludeId?: string) => {
+    if (!snap || altKey) { setSnapHit(null); return p; }
+    const hit = snapPoint(p, shapes, guides ?? [], snap, w, h, excludeId);
+    setSnapHit(hit);
+    return hit ? hit.point : p;
+  };
+
+  // Outline used for picking and bounds: the lattice edge for mesh-mapped surfaces
+  const hitOutline = (shape: Shape) => shape.style.mappingMode === MappingMode.MESH ? meshOutline(getMesh(shape), 2) : flattenOutline(shape);
+
+  // A grouped surface is picked together with the rest of its group
+  const selectionUnit = (shape: Shape) => shape.group ? shapes.filter(s => s.group?.id === shape.group!.id).map(s => s.id) : [shape.id];
+
+  // Pixel bounds of the given surfaces, or null when none of them exist
+  const boundsOf = (ids: string[], w: number, h: number): Box | null => {
+    const outline = shapes.filter(s => ids.includes(s.id)).flatMap(hitOutline);
+    if (!outline.length) return null;
+    const xs = outline.map(p => p.x * w), ys = outline.map(p => p.y * h);
+    const x = Math.min(...xs), y = Math.min(...ys);
+    return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+  };
+
+  // Transform box around the selection; hidden while drawing, projecting or pinning the keystone
+  const selectionBox = (w: number, h: number) => mode === 'EDITING' && selectedShapeIds.length ? boundsOf(selectedShapeIds, w, h) : null;
+
+  const boxHandles = (box: Box): [TransformHandle, Point][] => {
+    const l = box.x - BOX_PADDING, r = box.x + box.w + BOX_PADDING, t = box.y - BOX_PADDING, b = box.y + box.h + BOX_PADDING;
+    const cx = box.x + box.w / 2, cy = box.y + box.h / 2;
+    return [
+      ['nw', { x: l, y: t }], ['n', { x: cx, y: t }], ['ne', { x: r, y: t }], ['e', { x: r, y: cy }],
+      ['se', { x: r, y: b }], ['s', { x: cx, y: b }], ['sw', { x: l, y: b }], ['w', { x: l, y: cy }],
+      ['rotate', { x: cx, y: t - ROTATE_HANDLE_OFFSET }]
+    ];
+  };
+
+  // Pixel-space map for dragging a box handle from start to p. Shift constrains a move to one axis,
+  // a corner scale to the box's proportions and a rotation to 15° steps; skew slides an edge handle along its side
+  const boxTransform = (handle: TransformHandle, box: Box, start: Point, p: Point, shiftKey: boolean, skew: boolean): Affine => {
+    let dx = p.x - start.x, dy = p.y - start.y;
+    if (handle === 'move') {
+      if (shiftKey) { if (Math.abs(dx) > Math.abs(dy)) dy = 0; else dx = 0; }
+      return [1, 0, 0, 1, dx, dy];
+    }
+    const cx = box.x + box.w / 2, cy = box.y + box.h / 2;
+    if (handle === 'rotate') {
+      let angle = Math.atan2(p.y - cy, p.x - cx) - Math.atan2(start.y - cy, start.x - cx);
+      if (shiftKey) angle = Math.round(angle / ROTATE_SNAP) * ROTATE_SNAP;
+      const cos = Math.cos(angle), sin = Math.sin(angle);
+      return [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+    }
+    // Scale and skew pivot on the side or corner opposite the handle
+    const ax = handle.includes('w') ? box.x + box.w : box.x, ay = handle.includes('n') ? box.y + box.h : box.y;
+    const spanX = handle.includes('w') ? -box.w : box.w, spanY = handle.includes('n') ? -box.h : box.h;
+    if (skew && (handle === 'n' || handle === 's')) {
+      const k = Math.abs(spanY) > 1 ? dx / spanY : 0;
+      return [1, 0, k, 1, -k * ay, 0];
+    }
+    if (skew && (handle === 'e' || handle === 'w')) {
+      const k = Math.abs(spanX) > 1 ? dy / spanX : 0;
+      return [1, k, 0, 1, 0, -k * ax];
+    }
+    const scalesX = handle.includes('e') || handle.includes('w'), scalesY = handle.includes('n') || handle.includes('s');
+    let sx = scalesX && Math.abs(spanX) > 1 ? 1 + dx / spanX : 1;
+    let sy = scalesY && Math.abs(spanY) > 1 ? 1 + dy / spanY : 1;
+    if (shiftKey && scalesX && scalesY) sx = sy = Math.abs(sx - 1) > Math.abs(sy - 1) ? sx : sy;
+    return [sx, 0, 0, sy, ax - sx * ax, ay - sy * ay];
+  };
+
+  // Dashed selection box with its scale and rotate handles, and the marquee being dragged
+  const drawSelection = (ctx: CanvasRenderingContext2D, w: number, h: number) => {
+    ctx.save();
+    const box = selectionBox(w, h);
+    if (box) {
+      const handles = boxHandles(box);
+      ctx.strokeStyle = '#00b5cc';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.strokeRect(box.x - BOX_PADDING, box.y - BOX_PADDING, box.w + BOX_PADDING * 2, box.h + BOX_PADDING * 2);
+      ctx.setLineDash([]);
+      const top = handles[1][1], rotate = handles[8][1];
+      ctx.beginPath(); ctx.moveTo(top.x, top.y); ctx.lineTo(rotate.x, rotate.y); ctx.stroke();
+      handles.forEach(([handle, at]) => {
+        ctx.beginPath();
+        if (handle === 'rotate') ctx.arc(at.x, at.y, 6, 0, Math.PI * 2);
+        else ctx.rect(at.x - 5, at.y - 5, 10, 10);
+        ctx.fillStyle = transformDrag?.handle === handle ? '#00b5cc' : '#fff'; ctx.fill();
+        ctx.strokeStyle = '#00b5cc'; ctx.lineWidth = 2; ctx.stroke();
+      });
+    }
+    if (marquee) {
+      const a = toPixels(marquee.start, w, h), b = toPixels(marquee.end, w, h);
+      ctx.fillStyle = 'rgba(0, 181, 204, 0.08)';
+      ctx.fillRect(a.x, a.y, b.x - a.x, b.y - a.y);
+      ctx.strokeStyle = '#00b5cc';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([6, 4]);
+      ctx.strokeRect(a.x, a.y, b.x - a.x, b.y - a.y);
+    }
+    ctx.restore();
+  };
+
+  // A marquee picks the vertices it encloses on the surface being edited, otherwise every surface wholly inside it
+  const finishMarquee = ({ start, end, additive }: { start: Point; end: Point; additive: boolean }, w: number, h: number) => {
+    const x0 = Math.min(start.x, end.x), x1 = Math.max(start.x, end.x), y0 = Math.min(start.y, end.y), y1 = Math.max(start.y, end.y);
+    if ((x1 - x0) * w < 4 && (y1 - y0) * h < 4) {
+      // A plain click on empty stage clears the selection
+      if (!additive) { onSelectShapes([]); onModeChange('IDLE'); }
+      return;
+    }
+    const inside = (p: Point) => p.x >= x0 && p.x <= x1 && p.y >= y0 && p.y <= y1;
+    const edited = shapes.find(s => s.id === selectedShapeId);
+    if (edited && mode === 'EDITING' && !edited.ellipse && edited.style.mappingMode !== MappingMode.MESH) {
+      const enclosed = edited.points.map((v, i) => inside(v) ? i : -1).filter(i => i !== -1);
+      if (enclosed.length) {
+        onSelectVertices?.(additive ? Array.from(new Set([...selectedVertices, ...enclosed])) : enclosed);
+        return;
+      }
+    }
+    const hits = shapes.filter(s => s.visible && hitOutline(s).every(inside)).flatMap(selectionUnit);
+    const next = Array.from(new Set(additive ? [...selectedShapeIds, ...hits] : hits));
+    onSelectShapes(next);
+    onModeChange(next.length ? 'EDITING' : 'IDLE');
+  };
+
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     
-    const w = canvas.width;
-    const h = canvas.height;
-    ctx.clearRect(0, 0, w, h);
-    const time = Date.now();
+    const frameW = canvas.width;
+    const frameH = canvas.height;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, frameW, frameH);
+    const position = show ? transportPosition(show.transport) : 0;
+    const time = show ? position * 1000 : Date.now();
+    // Keyframes follow the show clock when a show runs; the surface being edited holds its base pose
+    const clock = time / 1000;
+    const frameShapes = (show ? evaluateCues(shapes, show.cues, position) : shapes).map(shape =>
+      shape.animation && !(!isProjector && mode === 'EDITING' && shape.id === selectedShapeId) ? animateShape(shape, clock) : shape);
 
-    shapes.forEach(shape => {
-      if (!shape.visible || shape.points.length < 2) return;
-      const isSelected = shape.id === selectedShapeId && !isProjector;
+    // An output window sees its region of the stage scaled up to fill the frame
+    const w = output ? frameW / output.width : frameW;
+    const h = output ? frameH / output.height : frameH;
+    if (output) ctx.setTransform(1, 0, 0, 1, -output.x * w, -output.y * h);
+
+    // Patterns are drawn in stage space, so an output window shows its slice of the same stripes
+    if (calibrationPattern) drawCalibrationPattern(ctx, calibrationPattern, w, h);
+
+    const audio = frameShapes.some(s => AUDIO_EFFECTS.includes(s.style.effect)) ? readAudioSignals() : SILENCE;
+
+    frameShapes.forEach(shape => {
+      if (calibrationPattern || !shape.visible || shape.points.length < 2) return;
+      const isSelected = selectedShapeIds.includes(shape.id) && !isProjector;
+      // Point handles belong to the one surface being edited
+      const isEditing = shape.id === selectedShapeId && !isProjector && mode === 'EDITING';
       let opacity = shape.style.opacity;
       let color = shape.style.color;
+      let scale = 1;
+      const signal = Math.min(1, audio[shape.style.audioBand ?? 'level'] * (shape.style.audioGain ?? 1));
+
+      // Tempo-synced effects: flash on the beat, breathe out from it, or sweep the hue once per division
+      const phase = tempo && shape.style.beatDivision ? beatPhase(tempo, shape.style.beatDivision) : null;
 
-      if (shape.style.effect === EffectType.STROBE) opacity = Math.floor(time / ((11 - shape.style.effectSpeed) * 80)) % 2 === 0 ? opacity : 0;
+      if (shape.style.effect === EffectType.STROBE && phase !== null) opacity = phase < 0.5 ? opacity : 0;
+      else if (shape.style.effect === EffectType.BREATHE && phase !== null) opacity = shape.style.opacity * (0.3 + 0.7 * (Math.cos(phase * Math.PI * 2) * 0.5 + 0.5));
+      else if (shape.style.effect === EffectType.RAINBOW && phase !== null) color = `hsla(${phase * 360}, 80%, 50%, ${opacity})`;
+      else if (shape.style.effect === EffectType.STROBE) opacity = Math.floor(time / ((11 - shape.style.effectSpeed) * 80)) % 2 === 0 ? opacity : 0;
       else if (shape.style.effect === EffectType.BREATHE) opacity = shape.style.opacity * (0.3 + 0.7 * (Math.sin(time * (shape.style.effectSpeed / 800)) * 0.5 + 0.5));
       else if (shape.style.effect === EffectType.RAINBOW) color = `hsla(${(time * (shape.style.effectSpeed / 25)) % 360}, 80%, 50%, ${opacity})`;
+      else if (shape.style.effect === EffectType.AUDIO_PULSE) opacity = shape.style.opacity * signal;
+      else if (shape.style.effect === EffectType.AUDIO_COLOR) color = shiftHue(color, signal * 180);
+      else if (shape.style.effect === EffectType.AUDIO_SCALE) scale = 1 + signal * 0.5;
 
+      // AUDIO_SCALE grows the surface about its center
+      const paint = () => {
+        if (scale === 1) { renderSurface(ctx, shape, time, w, h); return; }
+        const c = shapeCenter(shape, w, h);
+        ctx.save();
+        ctx.translate(c.x, c.y);
+        ctx.scale(scale, scale);
+        ctx.translate(-c.x, -c.y);
+        renderSurface(ctx, shape, time, w, h);
+        ctx.restore();
+      };
+
+      opacity *= master;
       ctx.fillStyle = color;
-      if (mode === 'PROJECTING' || isProjector) {
+      if (mode === 'PROJECTING' || mode === 'KEYSTONE' || isProjector) {
         ctx.globalAlpha = opacity;
-        drawPattern(ctx, shape, time, w, h);
+        paint();
       } else {
         ctx.globalAlpha = isSelected ? opacity * 0.7 : opacity * 0.4;
-        drawPattern(ctx, shape, time, w, h);
+        paint();
         ctx.globalAlpha = 1;
         defineShapePath(ctx, shape, w, h);
         ctx.strokeStyle = isSelected ? '#00b5cc' : '#ffffff22';
@@ -330,17 +1069,70 @@ const Canvas: React.FC<CanvasProps> = ({
         ctx.stroke();
         ctx.setLineDash([]);
 
-        if (isSelected && mode === 'EDITING') {
-          shape.points.forEach(p => {
+        if (isEditing && shape.style.mappingMode === MappingMode.MESH) {
+          const mesh = getMesh(shape);
+          ctx.beginPath();
+          for (let r = 0; r < mesh.rows; r++) {
+            for (let c = 0; c < mesh.columns; c++) {
+              const p = toPixels(mesh.points[r * mesh.columns + c], w, h);
+              if (c > 0) { const q = toPixels(mesh.points[r * mesh.columns + c - 1], w, h); ctx.moveTo(q.x, q.y); ctx.lineTo(p.x, p.y); }
+              if (r > 0) { const q = toPixels(mesh.points[(r - 1) * mesh.columns + c], w, h); ctx.moveTo(q.x, q.y); ctx.lineTo(p.x, p.y); }
+            }
+          }
+          ctx.strokeStyle = '#facc1588'; ctx.lineWidth = 1; ctx.stroke();
+          mesh.points.forEach((p, i) => {
+            if (dragInfo?.meshIndex === i) return;
+            const px = toPixels(p, w, h);
+            ctx.beginPath(); ctx.arc(px.x, px.y, 6, 0, Math.PI * 2);
+            ctx.fillStyle = '#facc15'; ctx.fill();
+            ctx.strokeStyle = '#000'; ctx.lineWidth = 1.5; ctx.stroke();
+          });
+        } else if (isEditing) {
+          const handles = shape.ellipse ? Object.values(ellipseHandles(shape.ellipse, w / h)) : shape.points;
+          if (shape.ellipse) {
+            const c = toPixels(shape.ellipse.center, w, h);
+            ctx.beginPath();
+            handles.slice(1).forEach(p => { const px = toPixels(p, w, h); ctx.moveTo(c.x, c.y); ctx.lineTo(px.x, px.y); });
+            ctx.strokeStyle = '#00b5cc'; ctx.lineWidth = 1; ctx.stroke();
+          }
+          handles.forEach((p, i) => {
+            // The dragged point is left bare so the loupe shows exactly where it sits
+            if (!shape.ellipse && dragInfo?.pointIndex === i) return;
             const px = toPixels(p, w, h);
+            const picked = !shape.ellipse && selectedVertices.includes(i);
             ctx.beginPath(); ctx.arc(px.x, px.y, 8, 0, Math.PI * 2);
-            ctx.fillStyle = '#00b5cc'; ctx.fill();
-            ctx.strokeStyle = '#fff'; ctx.lineWidth = 2; ctx.stroke();
+            ctx.fillStyle = picked ? '#fff' : '#00b5cc'; ctx.fill();
+            ctx.strokeStyle = picked ? '#00b5cc' : '#fff'; ctx.lineWidth = 2; ctx.stroke();
+          });
+          controlHandles(shape).forEach(({ anchor, pos }) => {
+            const a = toPixels(anchor, w, h), c = toPixels(pos, w, h);
+            ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(c.x, c.y);
+            ctx.strokeStyle = '#ffffff88'; ctx.lineWidth = 1; ctx.stroke();
+            ctx.fillStyle = '#fff';
+            ctx.fillRect(c.x - 5, c.y - 5, 10, 10);
           });
         }
       }
     });
 
+    if (!isProjector && proposals) {
+      ctx.save();
+      ctx.setLineDash([6, 4]);
+      proposals.forEach(({ points, active }) => {
+        ctx.beginPath();
+        points.forEach((p, i) => { const px = toPixels(p, w, h); i === 0 ? ctx.moveTo(px.x, px.y) : ctx.lineTo(px.x, px.y); });
+        ctx.closePath();
+        ctx.fillStyle = active ? 'rgba(251, 146, 60, 0.25)' : 'rgba(251, 146, 60, 0.06)';
+        ctx.fill();
+        ctx.strokeStyle = active ? '#fb923c' : '#fb923c88';
+        ctx.lineWidth = active ? 2 : 1;
+        ctx.stroke();
+      });
+      ctx.restore();
+    }
+
+    if (!isProjector) drawSelection(ctx, w, h);
+
     if (!isProjector && mode === 'DRAWING') {
       if (currentDrawingPoints.length > 0) {
         const firstPx = toPixels(currentDrawingPoints[0], w, h);
@@ -428,8 +1220,21 @@ const Canvas: React.FC<CanvasProps> = ({
         });
       }
     }
+    if (!isProjector && outputRegions) drawOutputRegions(ctx, outputRegions, w, h);
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    // Stripes keep full contrast across blend bands so every camera pixel decodes
+    if (output && !calibrationPattern) drawEdgeBlend(ctx, output.blend, frameW, frameH);
+
+    // The keystone bends the whole finished frame, blend ramps included
+    if (mode === 'KEYSTONE') drawAlignmentGrid(ctx, frameW, frameH);
+    if (keystone && (isProjector || mode === 'PROJECTING' || mode === 'KEYSTONE') && !isIdentityKeystone(keystone)) applyKeystone(ctx, canvas, keystone, frameW, frameH);
+    if (!isProjector && mode === 'KEYSTONE' && keystone) drawKeystoneHandles(ctx, keystone, frameW, frameH);
+    if (!isProjector && mode !== 'KEYSTONE') drawEditorAids(ctx, frameW, frameH);
+    if (!isProjector && mousePos && (dragInfo || keystoneDrag || transformDrag?.moved)) drawLoupe(ctx, canvas, toPixels(mousePos, frameW, frameH));
+
     animationRef.current = requestAnimationFrame(draw);
-  }, [shapes, selectedShapeId, mode, currentDrawingPoints, mousePos, globalTestPattern, isProjector]);
+  }, [shapes, selectedShapeId, mode, currentDrawingPoints, mousePos, globalTestPattern, isProjector, output, outputRegions, show, tempo, master, proposals, keystone, calibrationPattern, guides, snap, selectedShapeIds, selectedVertices, dragInfo, keystoneDrag, guideDrag, snapHit, transformDrag, marquee]);
 
   useEffect(() => { animationRef.current = requestAnimationFrame(draw); return () => cancelAnimationFrame(animationRef.current); }, [draw]);
 
@@ -440,6 +1245,30 @@ const Canvas: React.FC<CanvasProps> = ({
     const pixelP = { x: e.clientX - rect.left, y: e.clientY - rect.top };
     const p = toNormalized(pixelP, rect.width, rect.height);
 
+    if (mode === 'KEYSTONE') {
+      if (!keystone) return;
+      const corner = keystone.corners.findIndex(c => dist(pixelP, toPixels(c, rect.width, rect.height)) < 20);
+      const meshIndex = corner === -1 && keystone.mesh
+        ? keystone.mesh.points.findIndex((mp, i) => !isLatticeCorner(keystone, i) && dist(pixelP, toPixels(keystoneMeshHandle(keystone, mp), rect.width, rect.height)) < 16)
+        : -1;
+      if (corner !== -1) setKeystoneDrag({ kind: 'corner', index: corner });
+      else if (meshIndex !== -1) setKeystoneDrag({ kind: 'mesh', index: meshIndex });
+      else return;
+      canvasRef.current?.setPointerCapture(e.pointerId);
+      return;
+    }
+
+    // Dragging out of the top ruler makes a horizontal guide, out of the left one a vertical guide
+    if (guides && onGuidesChange && (pixelP.x < RULER_SIZE || pixelP.y < RULER_SIZE)) {
+      if (pixelP.x < RULER_SIZE && pixelP.y < RULER_SIZE) return;
+      const axis = pixelP.y < RULER_SIZE ? 'y' : 'x';
+      const guide: Guide = { id: Math.random().toString(36).substr(2, 9), axis, position: axis === 'x' ? p.x : p.y };
+      onGuidesChange([...guides, guide]);
+      setGuideDrag(guide.id);
+      canvasRef.current?.setPointerCapture(e.pointerId);
+      return;
+    }
+
     if (mode === 'DRAWING') {
       if (currentDrawingPoints.length > 2) {
         const firstPx = toPixels(currentDrawingPoints[0], rect.width, rect.height);
@@ -450,37 +1279,108 @@ const Canvas: React.FC<CanvasProps> = ({
           return;
         }
       }
-      onDrawingUpdate([...currentDrawingPoints, p]);
+      onDrawingUpdate([...currentDrawingPoints, snapAt(p, e.altKey, rect.width, rect.height)]);
       return;
     }
 
     if (selectedShapeId) {
       const selected = shapes.find(s => s.id === selectedShapeId);
-      if (selected) {
+      if (selected?.style.mappingMode === MappingMode.MESH && mode === 'EDITING') {
+        const meshIndex = getMesh(selected).points.findIndex(mp => dist(pixelP, toPixels(mp, rect.width, rect.height)) < 16);
+        if (meshIndex !== -1) {
+          setDragInfo({ shapeId: selected.id, pointIndex: -1, meshIndex });
+          canvasRef.current?.setPointerCapture(e.pointerId);
+          return;
+        }
+      } else if (selected?.ellipse) {
+        const handle = (Object.entries(ellipseHandles(selected.ellipse, rect.width / rect.height)) as [EllipseHandle, Point][])
+          .find(([, hp]) => dist(pixelP, toPixels(hp, rect.width, rect.height)) < 20);
+        if (handle) {
+          setDragInfo({ shapeId: selected.id, pointIndex: -1, ellipseHandle: handle[0] });
+          canvasRef.current?.setPointerCapture(e.pointerId);
+          return;
+        }
+      } else if (selected) {
+        const control = controlHandles(selected).find(c => dist(pixelP, toPixels(c.pos, rect.width, rect.height)) < 14);
+        if (control) {
+          setDragInfo({ shapeId: selected.id, pointIndex: -1, control: { edge: control.edge, key: control.key } });
+          canvasRef.current?.setPointerCapture(e.pointerId);
+          return;
+        }
         const handleIndex = selected.points.findIndex(hp => dist(pixelP, toPixels(hp, rect.width, rect.height)) < 20);
         if (handleIndex !== -1) {
+          // Shift toggles a vertex in the picked set; dragging any picked vertex carries the rest along
+          const picked = e.shiftKey
+            ? selectedVertices.includes(handleIndex) ? selectedVertices.filter(i => i !== handleIndex) : [...selectedVertices, handleIndex]
+            : selectedVertices.includes(handleIndex) ? selectedVertices : [handleIndex];
+          onSelectVertices?.(picked);
+          if (!picked.includes(handleIndex)) return;
           setDragInfo({ shapeId: selected.id, pointIndex: handleIndex });
           canvasRef.current?.setPointerCapture(e.pointerId);
           return;
         }
+        // Clicks on the outline keep the selection so edges can be double-clicked
+        if (mode === 'EDITING' && findNearestEdge(selected, pixelP, rect.width, rect.height) !== -1) return;
       }
     }
 
-    for (let i = shapes.length - 1; i >= 0; i--) {
-      const scaledPoints = shapes[i].points.map(sp => toPixels(sp, rect.width, rect.height));
-      const isInside = (pt: Point, poly: Point[]) => {
-        let inside = false;
-        for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
-          const xi = poly[i].x, yi = poly[i].y, xj = poly[j].x, yj = poly[j].y;
-          const intersect = ((yi > pt.y) !== (yj > pt.y)) && (pt.x < (xj - xi) * (pt.y - yi) / (yj - yi) + xi);
-          if (intersect) inside = !inside;
-        }
-        return inside;
-      };
+    const box = selectionBox(rect.width, rect.height);
+    const boxHandle = box && boxHandles(box).find(([, at]) => dist(pixelP, at) < 12);
+    if (boxHandle) {
+      setTransformDrag({ handle: boxHandle[0], start: pixelP, box: box!, originals: shapes.filter(s => selectedShapeIds.includes(s.id)), moved: false });
+      canvasRef.current?.setPointerCapture(e.pointerId);
+      return;
+    }
 
-      if (isInside(pixelP, scaledPoints)) { onSelectShape(shapes[i].id); onModeChange('EDITING'); return; }
+    const guide = guides?.find(g => Math.abs(g.axis === 'x' ? pixelP.x - g.position * rect.width : pixelP.y - g.position * rect.height) < GUIDE_GRAB_DISTANCE);
+    if (guide && onGuidesChange) {
+      setGuideDrag(guide.id);
+      canvasRef.current?.setPointerCapture(e.pointerId);
+      return;
     }
-    onSelectShape(null); onModeChange('IDLE');
+
+    if (!e.shiftKey) onSelectVertices?.([]);
+
+    const isInside = (pt: Point, poly: Point[]) => {
+      let inside = false;
+      for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+        const xi = poly[i].x, yi = poly[i].y, xj = poly[j].x, yj = poly[j].y;
+        const intersect = ((yi > pt.y) !== (yj > pt.y)) && (pt.x < (xj - xi) * (pt.y - yi) / (yj - yi) + xi);
+        if (intersect) inside = !inside;
+      }
+      return inside;
+    };
+    const hit = [...shapes].reverse().find(s => isInside(pixelP, hitOutline(s).map(sp => toPixels(sp, rect.width, rect.height))));
+
+    if (hit) {
+      const unit = selectionUnit(hit);
+      if (e.shiftKey) {
+        const next = unit.every(id => selectedShapeIds.includes(id))
+          ? selectedShapeIds.filter(id => !unit.includes(id))
+          : Array.from(new Set([...selectedShapeIds, ...unit]));
+        onSelectShapes(next);
+        onModeChange(next.length ? 'EDITING' : 'IDLE');
+        return;
+      }
+      // Pressing inside the selection drags all of it; a click without a drag narrows it to the surface under the pointer
+      const inSelection = selectedShapeIds.includes(hit.id);
+      const ids = inSelection ? selectedShapeIds : unit;
+      if (!inSelection) onSelectShapes(unit);
+      onModeChange('EDITING');
+      setTransformDrag({
+        handle: 'move',
+        start: pixelP,
+        box: boundsOf(ids, rect.width, rect.height)!,
+        originals: shapes.filter(s => ids.includes(s.id)),
+        moved: false,
+        clickedId: inSelection && ids.length > 1 ? hit.id : undefined
+      });
+      canvasRef.current?.setPointerCapture(e.pointerId);
+      return;
+    }
+
+    setMarquee({ start: p, end: p, additive: e.shiftKey });
+    canvasRef.current?.setPointerCapture(e.pointerId);
   };
 
   const handlePointerMove = (e: React.PointerEvent) => {
@@ -489,7 +1389,48 @@ const Canvas: React.FC<CanvasProps> = ({
     const p = toNormalized({ x: e.clientX - rect.left, y: e.clientY - rect.top }, rect.width, rect.height);
     
     if (mode === 'DRAWING') {
-      setMousePos(p);
+      setMousePos(snapAt(p, e.altKey, rect.width, rect.height));
+      return;
+    }
+
+    if (guideDrag && guides) {
+      onGuidesChange?.(guides.map(g => g.id === guideDrag ? { ...g, position: Math.max(0, Math.min(1, g.axis === 'x' ? p.x : p.y)) } : g));
+      return;
+    }
+
+    if (marquee) {
+      setMarquee({ ...marquee, end: p });
+      return;
+    }
+
+    // The loupe follows the pointer while anything is being dragged
+    if (dragInfo || keystoneDrag || transformDrag) setMousePos(p);
+
+    if (transformDrag) {
+      const pixelP = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      // A press that has not travelled yet may still be a click
+      if (!transformDrag.moved && dist(pixelP, transformDrag.start) < 3) return;
+      const m = boxTransform(transformDrag.handle, transformDrag.box, transformDrag.start, pixelP, e.shiftKey, e.ctrlKey || e.metaKey);
+      // Pixel map to normalized stage coordinates
+      const w = rect.width, h = rect.height;
+      const normalized: Affine = [m[0], m[1] * w / h, m[2] * h / w, m[3], m[4] / w, m[5] / h];
+      onShapesTransform?.(transformDrag.originals.map(s => transformShape(s, normalized, w / h)));
+      if (!transformDrag.moved) setTransformDrag({ ...transformDrag, moved: true });
+      return;
+    }
+
+    if (keystoneDrag && keystone) {
+      if (keystoneDrag.kind === 'corner') {
+        const corners = [...keystone.corners];
+        corners[keystoneDrag.index] = { x: Math.max(0, Math.min(1, p.x)), y: Math.max(0, Math.min(1, p.y)) };
+        onKeystoneUpdate?.({ ...keystone, corners });
+      } else if (keystone.mesh) {
+        const q = outputToKeystoneMesh(keystone, p);
+        if (!q) return;
+        const points = [...keystone.mesh.points];
+        points[keystoneDrag.index] = q;
+        onKeystoneUpdate?.({ ...keystone, mesh: { ...keystone.mesh, points } });
+      }
       return;
     }
 
@@ -497,14 +1438,85 @@ const Canvas: React.FC<CanvasProps> = ({
     const shape = shapes.find(s => s.id === dragInfo.shapeId);
     if (!shape) return;
 
-    if (dragInfo.pointIndex !== -1) {
-      const newPoints = [...shape.points];
-      newPoints[dragInfo.pointIndex] = {
+    if (dragInfo.meshIndex !== undefined) {
+      const mesh = getMesh(shape);
+      const points = [...mesh.points];
+      const to = snapAt(p, e.altKey, rect.width, rect.height, shape.id);
+      points[dragInfo.meshIndex] = { x: Math.max(0, Math.min(1, to.x)), y: Math.max(0, Math.min(1, to.y)) };
+      onMeshUpdate?.({ ...mesh, points });
+    } else if (dragInfo.ellipseHandle && shape.ellipse) {
+      onEllipseUpdate?.(dragEllipseHandle(shape.ellipse, rect.width / rect.height, dragInfo.ellipseHandle, {
         x: Math.max(0, Math.min(1, p.x)),
         y: Math.max(0, Math.min(1, p.y))
-      };
-      onPointsUpdate(newPoints, shape.isClosed);
+      }));
+    } else if (dragInfo.control && shape.edges?.[dragInfo.control.edge]) {
+      const { edge, key } = dragInfo.control;
+      const edges = [...shape.edges];
+      edges[edge] = { ...edges[edge]!, [key]: p } as BezierEdge;
+      onPointsUpdate(shape.points, shape.isClosed, edges);
+    } else if (dragInfo.pointIndex !== -1) {
+      const idx = dragInfo.pointIndex;
+      const to = snapAt(p, e.altKey, rect.width, rect.height, shape.id);
+      const target = { x: Math.max(0, Math.min(1, to.x)), y: Math.max(0, Math.min(1, to.y)) };
+      // Other picked vertices follow the dragged one by the same offset
+      const dx = target.x - shape.points[idx].x, dy = target.y - shape.points[idx].y;
+      const moving = selectedVertices.includes(idx) ? selectedVertices : [idx];
+      const newPoints = [...shape.points];
+      let edges = shape.edges;
+      moving.forEach(i => {
+        const from = shape.points[i];
+        if (!from) return;
+        const dest = i === idx ? target : { x: Math.max(0, Math.min(1, from.x + dx)), y: Math.max(0, Math.min(1, from.y + dy)) };
+        if (edges) edges = moveAttachedControls({ ...shape, edges }, i, dest);
+        newPoints[i] = dest;
+      });
+      onPointsUpdate(newPoints, shape.isClosed, edges);
+    }
+  };
+
+  const findNearestEdge = (shape: Shape, pixelP: Point, w: number, h: number, tolerance = 12) => {
+    let nearest = -1, best = tolerance;
+    for (let i = 0; i < edgeCount(shape); i++) {
+      for (let t = 0; t <= 1; t += 1 / 32) {
+        const d = dist(pixelP, toPixels(shapeEdgePoint(shape, i, t), w, h));
+        if (d < best) { best = d; nearest = i; }
+      }
     }
+    return nearest;
+  };
+
+  // Double-clicking an edge cycles it: straight -> quadratic -> cubic -> straight
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    if (isProjector || mode !== 'EDITING' || !selectedShapeId) return;
+    const shape = shapes.find(s => s.id === selectedShapeId);
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!shape || shape.ellipse || !rect) return;
+    const nearest = findNearestEdge(shape, { x: e.clientX - rect.left, y: e.clientY - rect.top }, rect.width, rect.height);
+    if (nearest === -1) return;
+
+    const edges = Array.from({ length: shape.points.length }, (_, i) => shape.edges?.[i] ?? null);
+    const current = edges[nearest];
+    edges[nearest] = !current ? createBezierEdge(shape, nearest, 'quadratic')
+      : current.kind === 'quadratic' ? createBezierEdge(shape, nearest, 'cubic')
+      : null;
+    onPointsUpdate(shape.points, shape.isClosed, edges);
+    onDragEnd?.();
+  };
+
+  const handlePointerUp = () => {
+    if (dragInfo || transformDrag?.moved) onDragEnd?.();
+    if (transformDrag && !transformDrag.moved && transformDrag.clickedId) onSelectShapes([transformDrag.clickedId]);
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (marquee && rect) finishMarquee(marquee, rect.width, rect.height);
+    // A guide dropped back onto its ruler is removed
+    const guide = guides?.find(g => g.id === guideDrag);
+    if (guide && rect && guide.position * (guide.axis === 'x' ? rect.width : rect.height) < RULER_SIZE) onGuidesChange?.(guides!.filter(g => g !== guide));
+    setDragInfo(null);
+    setKeystoneDrag(null);
+    setGuideDrag(null);
+    setTransformDrag(null);
+    setMarquee(null);
+    if (mode !== 'DRAWING') setSnapHit(null);
   };
 
   return (
@@ -515,7 +1527,8 @@ const Canvas: React.FC<CanvasProps> = ({
         className={`absolute inset-0 z-10 block w-full h-full ${mode === 'DRAWING' ? 'cursor-crosshair' : 'cursor-default'}`} 
         onPointerDown={handlePointerDown} 
         onPointerMove={handlePointerMove} 
-        onPointerUp={() => setDragInfo(null)} 
+        onPointerUp={handlePointerUp} 
+        onDoubleClick={handleDoubleClick}
       />
     </div>
   );
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { ListOrdered, Play, Pause, SkipForward, Square, Plus, Trash2, RefreshCw } from 'lucide-react';
+import { Shape, Cue, Transport } from '../types.ts';
+import {
+  captureLooks, sortCues, activeCueIndex, transportPosition,
+  togglePlayback, goToNextCue, seekTransport, startTransport
+} from '../utils/timeline.ts';
+
+interface CuePanelProps {
+  shapes: Shape[];
+  cues: Cue[];
+  transport: Transport | null;
+  onChange: (cues: Cue[]) => void;
+  onTransport: (transport: Transport | null) => void;
+}
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = (seconds - m * 60).toFixed(1).padStart(4, '0');
+  return `${m}:${s}`;
+};
+
+const CuePanel: React.FC<CuePanelProps> = ({ shapes, cues, transport, onChange, onTransport }) => {
+  const [, setTick] = useState(0);
+  const sorted = sortCues(cues);
+  const position = transport ? transportPosition(transport) : 0;
+  const activeIndex = transport ? activeCueIndex(sorted, position) : -1;
+
+  // Re-render the clock while the show runs
+  useEffect(() => {
+    if (!transport?.playing) return;
+    const timer = setInterval(() => setTick(t => t + 1), 100);
+    return () => clearInterval(timer);
+  }, [transport]);
+
+  const update = (id: string, patch: Partial<Cue>) => onChange(cues.map(c => c.id === id ? { ...c, ...patch } : c));
+
+  const recordCue = () => {
+    const last = sorted[sorted.length - 1];
+    const time = transport ? Math.round(position * 10) / 10 : last ? last.time + 5 : 0;
+    onChange([...cues, {
+      id: Math.random().toString(36).substr(2, 9),
+      name: `Cue ${cues.length + 1}`,
+      time,
+      fade: 1,
+      looks: captureLooks(shapes),
+    }]);
+  };
+
+  const jumpTo = (cue: Cue) => onTransport(seekTransport(transport ?? { ...startTransport(), playing: false }, cue.time));
+
+  return (
+    <div className="flex flex-col gap-4 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] text-slate-500 block uppercase font-black tracking-[0.2em] flex items-center gap-2">
+          <ListOrdered className="w-3.5 h-3.5" /> Cue List
+        </label>
+        <button onClick={recordCue} className="flex items-center gap-1 px-3 py-2 rounded-xl bg-rose-600 text-white text-[9px] font-black uppercase tracking-widest transition-all" title="Record the current look as a cue">
+          <Plus className="w-3.5 h-3.5" /> Record
+        </button>
+      </div>
+
+      <div className="bg-slate-950/50 p-4 rounded-2xl border border-white/5 space-y-3">
+        <div className="flex items-baseline justify-between">
+          <span className="text-2xl font-black tabular-nums text-white">{formatTime(position)}</span>
+          <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">
+            {!transport ? 'Stopped' : transport.playing ? 'Playing' : 'Paused'}
+          </span>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <button
+            onClick={() => onTransport(togglePlayback(transport))}
+            className={`flex items-center justify-center py-3 rounded-xl border transition-all ${transport?.playing ? 'bg-rose-600 border-rose-500 text-white' : 'bg-transparent border-white/10 text-slate-300 hover:border-white/30'}`}
+            title="Play / Pause"
+          >
+            {transport?.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </button>
+          <button
+            onClick={() => onTransport(goToNextCue(cues, transport))}
+            disabled={cues.length === 0}
+            className="flex items-center justify-center py-3 rounded-xl border border-white/10 text-slate-300 hover:border-white/30 disabled:opacity-30 transition-all"
+            title="Go to next cue"
+          >
+            <SkipForward className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onTransport(null)}
+            disabled={!transport}
+            className="flex items-center justify-center py-3 rounded-xl border border-white/10 text-slate-300 hover:border-white/30 disabled:opacity-30 transition-all"
+            title="Stop and return to the editing look"
+          >
+            <Square className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {cues.length === 0 ? (
+        <div className="py-10 text-center border border-dashed border-white/10 rounded-3xl text-[10px] text-slate-600 font-black uppercase tracking-widest">
+          Set a look, then record it as a cue
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2">
+          {sorted.map((cue, i) => (
+            <div
+              key={cue.id}
+              onClick={() => jumpTo(cue)}
+              className={`group p-3 rounded-2xl border cursor-pointer transition-all ${i === activeIndex ? 'bg-rose-600/10 border-rose-500/50' : 'bg-slate-950 border-white/5 hover:border-white/20'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <input
+                  value={cue.name}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => update(cue.id, { name: e.target.value })}
+                  className="flex-1 min-w-0 bg-transparent text-xs font-black uppercase tracking-wider text-white focus:outline-none"
+                />
+                <div className="flex items-center gap-1 opacity-40 group-hover:opacity-100 transition-opacity">
+                  <button onClick={(e) => { e.stopPropagation(); update(cue.id, { looks: captureLooks(shapes) }); }} className="p-1.5 rounded-lg text-slate-400 hover:text-white transition-colors" title="Re-record from the current look">
+                    <RefreshCw className="w-3.5 h-3.5" />
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); onChange(cues.filter(c => c.id !== cue.id)); }} className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 transition-colors" title="Delete cue">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2 mt-2" onClick={(e) => e.stopPropagation()}>
+                <label className="flex items-center gap-2 text-[8px] font-black uppercase tracking-widest text-slate-500">
+                  At
+                  <input
+                    type="number" min="0" step="0.1"
+                    value={cue.time}
+                    onChange={(e) => update(cue.id, { time: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="w-full bg-black border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white focus:outline-none"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-[8px] font-black uppercase tracking-widest text-slate-500">
+                  Fade
+                  <input
+                    type="number" min="0" step="0.1"
+                    value={cue.fade}
+                    onChange={(e) => update(cue.id, { fade: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="w-full bg-black border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white focus:outline-none"
+                  />
+                </label>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-[9px] text-slate-600 leading-relaxed font-medium">
+        In the projector window: Space plays or pauses, → or Page Down goes to the next cue, Home returns to the top.
+      </p>
+    </div>
+  );
+};
+
+export default CuePanel;
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WandSparkles, Camera, ImagePlus, Check, X, Square as SquareIcon, Spline, CheckCheck } from 'lucide-react';
+import { Point, CalibrationMap } from '../types.ts';
+import { captureLuminance, cameraToStage, CapturedFrame } from '../utils/structuredLight.ts';
+import { detectSurfaces, coverToStage, SurfaceCandidate } from '../utils/surfaceDetection.ts';
+
+interface DetectionPanelProps {
+  calibration: CalibrationMap | null;
+  onPreview: (proposals: { points: Point[]; active: boolean }[] | null) => void;
+  onAccept: (points: Point[], isQuad: boolean) => void;
+}
+
+interface Proposal {
+  candidate: SurfaceCandidate;
+  useQuad: boolean;
+}
+
+/** Grabs one frame from the camera, opening and closing it around the capture. */
+const grabCameraFrame = async (): Promise<CapturedFrame> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1280 } } });
+  try {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    await video.play();
+    // Let auto-exposure settle before reading the frame
+    await new Promise(resolve => setTimeout(resolve, 600));
+    return captureLuminance(video, video.videoWidth, video.videoHeight);
+  } finally {
+    stream.getTracks().forEach(t => t.stop());
+  }
+};
+
+const DetectionPanel: React.FC<DetectionPanelProps> = ({ calibration, onPreview, onAccept }) => {
+  const [frame, setFrame] = useState<CapturedFrame | null>(null);
+  const [sensitivity, setSensitivity] = useState(0.5);
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [hoverId, setHoverId] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Through the calibration when it was solved for this camera; otherwise as the camera overlay lines up with the stage
+  const toStage = (points: Point[]) => {
+    if (!frame) return points;
+    const frameAspect = frame.width / frame.height;
+    const calibrated = calibration && Math.abs(calibration.width / calibration.height - frameAspect) < 0.02 ? calibration : null;
+    return points.map(p => (calibrated && cameraToStage(calibrated, p)) || coverToStage(p, frameAspect, window.innerWidth / window.innerHeight));
+  };
+
+  const shapeOf = ({ candidate, useQuad }: Proposal) => toStage(useQuad && candidate.quad ? candidate.quad : candidate.outline);
+
+  useEffect(() => {
+    if (!frame) return;
+    setProposals(detectSurfaces(frame, sensitivity).map(candidate => ({ candidate, useQuad: !!candidate.quad })));
+  }, [frame, sensitivity]);
+
+  useEffect(() => {
+    onPreview(proposals.length ? proposals.map(p => ({ points: shapeOf(p), active: p.candidate.id === hoverId })) : null);
+  }, [proposals, hoverId, calibration]);
+
+  useEffect(() => () => onPreview(null), []);
+
+  const detectFromCamera = async () => {
+    setBusy(true);
+    try { setFrame(await grabCameraFrame()); }
+    catch (e: any) { alert("Camera Error: " + e.message); }
+    finally { setBusy(false); }
+  };
+
+  const detectFromImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const bitmap = await createImageBitmap(file);
+      setFrame(captureLuminance(bitmap, bitmap.width, bitmap.height));
+      bitmap.close();
+    } catch (err: any) { alert("Detection Error: " + err.message); }
+  };
+
+  const accept = (proposal: Proposal) => {
+    onAccept(shapeOf(proposal), proposal.useQuad && !!proposal.candidate.quad);
+    setProposals(prev => prev.filter(p => p !== proposal));
+  };
+
+  const reject = (proposal: Proposal) => setProposals(prev => prev.filter(p => p !== proposal));
+
+  const toggleQuad = (proposal: Proposal) =>
+    setProposals(prev => prev.map(p => p === proposal ? { ...p, useQuad: !p.useQuad } : p));
+
+  return (
+    <div className="flex flex-col gap-4 animate-in fade-in duration-500">
+      <label className="text-[10px] text-slate-500 block uppercase font-black tracking-[0.2em] flex items-center gap-2">
+        <WandSparkles className="w-3.5 h-3.5" /> Detect Surfaces
+      </label>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={detectFromCamera}
+          disabled={busy}
+          className="flex items-center justify-center gap-2 py-3 rounded-xl bg-orange-500 text-black text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30"
+        >
+          <Camera className="w-3.5 h-3.5" /> {busy ? 'Capturing' : 'Camera'}
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex items-center justify-center gap-2 py-3 rounded-xl border border-white/10 text-slate-300 text-[10px] font-black uppercase tracking-widest hover:bg-white/5 transition-all"
+        >
+          <ImagePlus className="w-3.5 h-3.5" /> Image
+        </button>
+        <input ref={fileInput} type="file" accept="image/*" className="hidden" onChange={detectFromImage} />
+      </div>
+
+      {frame && (
+        <div className="bg-slate-950/50 p-4 rounded-2xl border border-white/5">
+          <div className="flex justify-between text-[9px] font-black uppercase tracking-widest mb-2">
+            <span className="text-slate-500">Sensitivity</span>
+            <span className="text-orange-400">{Math.round(sensitivity * 100)}%</span>
+          </div>
+          <input
+            type="range" min="0" max="1" step="0.05"
+            value={sensitivity}
+            onChange={(e) => setSensitivity(parseFloat(e.target.value))}
+            className="w-full accent-orange-500"
+          />
+        </div>
+      )}
+
+      {proposals.length > 1 && (
+        <button
+          onClick={() => { proposals.forEach(p => onAccept(shapeOf(p), p.useQuad && !!p.candidate.quad)); setProposals([]); }}
+          className="flex items-center justify-center gap-2 py-2 rounded-xl border border-orange-500/50 text-orange-300 text-[9px] font-black uppercase tracking-widest hover:bg-orange-500/10 transition-all"
+        >
+          <CheckCheck className="w-3.5 h-3.5" /> Accept All ({proposals.length})
+        </button>
+      )}
+
+      <div className="flex flex-col gap-2">
+        {proposals.map((proposal, index) => (
+          <div
+            key={proposal.candidate.id}
+            onMouseEnter={() => setHoverId(proposal.candidate.id)}
+            onMouseLeave={() => setHoverId(null)}
+            className="flex items-center gap-2 p-3 rounded-2xl border bg-slate-950 border-white/5 hover:border-orange-500/50 transition-all"
+          >
+            <div className="flex-1 flex flex-col min-w-0">
+              <span className="text-[10px] font-black text-white uppercase tracking-wider">Surface {index + 1}</span>
+              <span className="text-[9px] text-slate-500 font-bold">
+                {proposal.useQuad && proposal.candidate.quad ? 'Quad' : `${proposal.candidate.outline.length}-point outline`} · {(proposal.candidate.area * 100).toFixed(1)}% of frame
+              </span>
+            </div>
+            {proposal.candidate.quad && (
+              <button onClick={() => toggleQuad(proposal)} className="p-1.5 rounded-lg text-slate-400 hover:text-white transition-all" title={proposal.useQuad ? 'Use the traced outline' : 'Use the fitted quad'}>
+                {proposal.useQuad ? <Spline className="w-4 h-4" /> : <SquareIcon className="w-4 h-4" />}
+              </button>
+            )}
+            <button onClick={() => reject(proposal)} className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 transition-all" title="Reject">
+              <X className="w-4 h-4" />
+            </button>
+            <button onClick={() => accept(proposal)} className="p-1.5 rounded-lg text-orange-400 hover:bg-orange-500/10 transition-all" title="Accept">
+              <Check className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        {frame && proposals.length === 0 && (
+          <div className="text-[9px] text-slate-600 font-bold uppercase tracking-widest">No surfaces found · try another sensitivity</div>
+        )}
+      </div>
+
+      <p className="text-[9px] text-slate-600 leading-relaxed font-medium">
+        Finds edge-bounded regions such as windows and panels in a camera frame. Accepted surfaces can be refined like any other.
+        {calibration ? ' Positions use the camera calibration.' : ' Without a calibration they line up with the camera overlay.'}
+      </p>
+    </div>
+  );
+};
+
+export default DetectionPanel;
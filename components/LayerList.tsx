@@ -1,25 +1,170 @@
 
-import React from 'react';
-import { Eye, EyeOff, Trash2, Hexagon, Plus, Video, Image as ImageIcon, Box } from 'lucide-react';
-import { Shape, FillType } from '../types.ts';
+import React, { useState } from 'react';
+import { Eye, EyeOff, Trash2, Hexagon, Plus, Video, Image as ImageIcon, Box, ChevronDown, ChevronRight, Group, Ungroup, Pencil, Check } from 'lucide-react';
+import { Shape, ShapeGroup, FillType } from '../types.ts';
 
 interface LayerListProps {
   shapes: Shape[];
-  selectedShapeId: string | null;
-  onSelect: (id: string) => void;
+  selectedShapeIds: string[];
+  onSelect: (ids: string[], additive: boolean) => void; // additive (shift-click) toggles the rows in the selection
   onDelete: (id: string) => void;
-  onToggleVisibility: (id: string, visible: boolean) => void;
+  onToggleVisibility: (ids: string[], visible: boolean) => void;
+  onRenameGroup: (groupId: string, name: string) => void;
+  onUngroup: (groupId: string) => void;
   onAddClick: () => void;
 }
 
+type LayerEntry = { shape: Shape } | { group: ShapeGroup; members: Shape[] };
+
 const LayerList: React.FC<LayerListProps> = ({ 
   shapes, 
-  selectedShapeId, 
+  selectedShapeIds, 
   onSelect, 
   onDelete, 
   onToggleVisibility,
+  onRenameGroup,
+  onUngroup,
   onAddClick
 }) => {
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  // Top of the stack first; a group sits where its topmost member does
+  const entries: LayerEntry[] = [];
+  [...shapes].reverse().forEach(shape => {
+    const node = shape.group && entries.find(e => 'group' in e && e.group.id === shape.group!.id) as { group: ShapeGroup; members: Shape[] } | undefined;
+    if (node) node.members.push(shape);
+    else entries.push(shape.group ? { group: shape.group, members: [shape] } : { shape });
+  });
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) onRenameGroup(editingId, editingName.trim());
+    setEditingId(null);
+  };
+
+  const toggleCollapsed = (groupId: string) =>
+    setCollapsed(prev => prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]);
+
+  const renderShape = (shape: Shape) => (
+    <div 
+      key={shape.id}
+      onClick={(e) => onSelect([shape.id], e.shiftKey)}
+      className={`flex items-center justify-between p-3 rounded-2xl cursor-pointer transition-all border group ${selectedShapeIds.includes(shape.id) ? 'bg-[#00b5cc]/10 border-[#00b5cc]/50 text-white' : 'bg-slate-950/40 border-transparent text-slate-400 hover:bg-slate-900 hover:border-white/5'}`}
+    >
+      <div className="flex items-center gap-3 overflow-hidden">
+        <div 
+          className="w-1.5 h-8 rounded-full flex-shrink-0" 
+          style={{ backgroundColor: shape.style.color, opacity: shape.style.opacity }} 
+        />
+        <div className="flex flex-col min-w-0">
+          <span className="text-xs font-black uppercase tracking-wider truncate leading-tight">{shape.name}</span>
+          <div className="flex items-center gap-1.5 mt-0.5">
+            {shape.style.fillType === FillType.VIDEO ? (
+              <Video className="w-2.5 h-2.5 text-indigo-400" />
+            ) : shape.style.fillType === FillType.IMAGE ? (
+              <ImageIcon className="w-2.5 h-2.5 text-emerald-400" />
+            ) : (
+              <div className="w-2 h-2 rounded-sm border border-slate-600" />
+            )}
+            <span className="text-[8px] font-bold uppercase text-slate-600">{shape.style.fillType}</span>
+          </div>
+        </div>
+      </div>
+      <div className="flex items-center gap-1 opacity-40 group-hover:opacity-100 transition-opacity">
+        <button 
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleVisibility([shape.id], !shape.visible);
+          }}
+          className={`p-1.5 rounded-lg transition-colors ${shape.visible ? 'text-[#00b5cc]' : 'text-slate-700'}`}
+        >
+          {shape.visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+        </button>
+        <button 
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete(shape.id);
+          }}
+          className="p-1.5 rounded-lg hover:text-red-500 transition-colors"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+
+  // Collapsible node: selecting or hiding it acts on every member at once
+  const renderGroup = (group: ShapeGroup, members: Shape[]) => {
+    const ids = members.map(m => m.id);
+    const open = !collapsed.includes(group.id);
+    const visible = members.some(m => m.visible);
+    return (
+      <div key={group.id} className="flex flex-col gap-2">
+        <div
+          onClick={(e) => onSelect(ids, e.shiftKey)}
+          className={`flex items-center justify-between p-3 rounded-2xl cursor-pointer transition-all border group ${ids.every(id => selectedShapeIds.includes(id)) ? 'bg-[#00b5cc]/10 border-[#00b5cc]/50 text-white' : 'bg-slate-950/40 border-transparent text-slate-400 hover:bg-slate-900 hover:border-white/5'}`}
+        >
+          <div className="flex items-center gap-2 overflow-hidden">
+            <button onClick={(e) => { e.stopPropagation(); toggleCollapsed(group.id); }} className="p-0.5 rounded hover:text-white transition-colors">
+              {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+            </button>
+            <Group className="w-4 h-4 flex-shrink-0 text-[#00b5cc]" />
+            {editingId === group.id ? (
+              <input
+                autoFocus
+                value={editingName}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => setEditingName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                onBlur={commitRename}
+                className="flex-1 min-w-0 bg-black border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none"
+              />
+            ) : (
+              <div className="flex flex-col min-w-0">
+                <span className="text-xs font-black uppercase tracking-wider truncate leading-tight">{group.name}</span>
+                <span className="text-[8px] font-bold uppercase text-slate-600 mt-0.5">{members.length} surfaces</span>
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-1 opacity-40 group-hover:opacity-100 transition-opacity">
+            {editingId === group.id ? (
+              <button onClick={(e) => { e.stopPropagation(); commitRename(); }} className="p-1.5 rounded-lg hover:text-white transition-colors">
+                <Check className="w-4 h-4" />
+              </button>
+            ) : (
+              <button
+                onClick={(e) => { e.stopPropagation(); setEditingId(group.id); setEditingName(group.name); }}
+                className="p-1.5 rounded-lg hover:text-white transition-colors"
+                title="Rename"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={(e) => { e.stopPropagation(); onToggleVisibility(ids, !visible); }}
+              className={`p-1.5 rounded-lg transition-colors ${visible ? 'text-[#00b5cc]' : 'text-slate-700'}`}
+            >
+              {visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onUngroup(group.id); }}
+              className="p-1.5 rounded-lg hover:text-white transition-colors"
+              title="Ungroup"
+            >
+              <Ungroup className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        {open && (
+          <div className="flex flex-col gap-2 ml-3 pl-3 border-l border-white/5">
+            {members.map(renderShape)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div className="flex flex-col gap-4">
       <div className="flex items-center justify-between">
@@ -50,53 +195,7 @@ const LayerList: React.FC<LayerListProps> = ({
             </button>
           </div>
         ) : (
-          [...shapes].reverse().map(shape => (
-            <div 
-              key={shape.id}
-              onClick={() => onSelect(shape.id)}
-              className={`flex items-center justify-between p-3 rounded-2xl cursor-pointer transition-all border group ${selectedShapeId === shape.id ? 'bg-[#00b5cc]/10 border-[#00b5cc]/50 text-white' : 'bg-slate-950/40 border-transparent text-slate-400 hover:bg-slate-900 hover:border-white/5'}`}
-            >
-              <div className="flex items-center gap-3 overflow-hidden">
-                <div 
-                  className="w-1.5 h-8 rounded-full flex-shrink-0" 
-                  style={{ backgroundColor: shape.style.color, opacity: shape.style.opacity }} 
-                />
-                <div className="flex flex-col min-w-0">
-                  <span className="text-xs font-black uppercase tracking-wider truncate leading-tight">{shape.name}</span>
-                  <div className="flex items-center gap-1.5 mt-0.5">
-                    {shape.style.fillType === FillType.VIDEO ? (
-                      <Video className="w-2.5 h-2.5 text-indigo-400" />
-                    ) : shape.style.fillType === FillType.IMAGE ? (
-                      <ImageIcon className="w-2.5 h-2.5 text-emerald-400" />
-                    ) : (
-                      <div className="w-2 h-2 rounded-sm border border-slate-600" />
-                    )}
-                    <span className="text-[8px] font-bold uppercase text-slate-600">{shape.style.fillType}</span>
-                  </div>
-                </div>
-              </div>
-              <div className="flex items-center gap-1 opacity-40 group-hover:opacity-100 transition-opacity">
-                <button 
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onToggleVisibility(shape.id, !shape.visible);
-                  }}
-                  className={`p-1.5 rounded-lg transition-colors ${shape.visible ? 'text-[#00b5cc]' : 'text-slate-700'}`}
-                >
-                  {shape.visible ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
-                </button>
-                <button 
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onDelete(shape.id);
-                  }}
-                  className="p-1.5 rounded-lg hover:text-red-500 transition-colors"
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
-              </div>
-            </div>
-          ))
+          entries.map(entry => 'group' in entry ? renderGroup(entry.group, entry.members) : renderShape(entry.shape))
         )}
       </div>
     </div>
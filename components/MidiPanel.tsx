@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { Piano, Radio, Trash2, X } from 'lucide-react';
+import { Shape, ProjectVersion, EffectType, MidiMapping, MidiTarget } from '../types.ts';
+import { MidiEvent, emitVirtualMidi, describeTrigger } from '../services/midi.ts';
+
+interface MidiPanelProps {
+  shapes: Shape[];
+  versions: ProjectVersion[];
+  mappings: MidiMapping[];
+  inputs: string[] | null; // connected device names; null until MIDI access is granted
+  learning: MidiTarget | null;
+  lastEvent: MidiEvent | null;
+  master: number;
+  onMaster: (master: number) => void;
+  onConnect: () => void;
+  onLearn: (target: MidiTarget) => void;
+  onCancelLearn: () => void;
+  onDelete: (id: string) => void;
+}
+
+const ACTIONS: { action: MidiTarget['action']; label: string }[] = [
+  { action: 'opacity', label: 'Surface Opacity' },
+  { action: 'visibility', label: 'Toggle Visibility' },
+  { action: 'effect', label: 'Select Effect' },
+  { action: 'effectSpeed', label: 'Effect Speed' },
+  { action: 'master', label: 'Master Dimmer' },
+  { action: 'version', label: 'Recall Snapshot' },
+];
+
+const VIRTUAL_PADS = [36, 37, 38, 39, 40, 41, 42, 43];
+
+const selectClass = "w-full bg-slate-950 border border-white/10 rounded-xl px-3 py-2 text-xs text-white focus:outline-none focus:ring-2 focus:ring-violet-500";
+
+const MidiPanel: React.FC<MidiPanelProps> = ({
+  shapes, versions, mappings, inputs, learning, lastEvent, master,
+  onMaster, onConnect, onLearn, onCancelLearn, onDelete
+}) => {
+  const [action, setAction] = useState<MidiTarget['action']>('opacity');
+  const [pickedShapeId, setShapeId] = useState('');
+  const [effect, setEffect] = useState<EffectType>(EffectType.STROBE);
+  const [pickedVersionId, setVersionId] = useState('');
+  const [virtualCc, setVirtualCc] = useState(1);
+  const [virtualValue, setVirtualValue] = useState(0);
+
+  // Pickers fall back to the first surface / snapshot until one is chosen (or the chosen one is deleted)
+  const shapeId = shapes.some(s => s.id === pickedShapeId) ? pickedShapeId : shapes[0]?.id ?? '';
+  const versionId = versions.some(v => v.id === pickedVersionId) ? pickedVersionId : versions[0]?.id ?? '';
+
+  const buildTarget = (): MidiTarget | null => {
+    switch (action) {
+      case 'master': return { action };
+      case 'version': return versionId ? { action, versionId } : null;
+      case 'effect': return shapeId ? { action, shapeId, effect } : null;
+      default: return shapeId ? { action, shapeId } : null;
+    }
+  };
+
+  const describeTarget = (target: MidiTarget) => {
+    const label = ACTIONS.find(a => a.action === target.action)?.label ?? target.action;
+    if (target.action === 'master') return label;
+    if (target.action === 'version') return `${label} · ${versions.find(v => v.id === target.versionId)?.name ?? 'missing'}`;
+    const shapeName = shapes.find(s => s.id === target.shapeId)?.name ?? 'missing';
+    return `${label} · ${shapeName}${target.action === 'effect' ? ` → ${target.effect}` : ''}`;
+  };
+
+  const target = buildTarget();
+
+  return (
+    <div className="flex flex-col gap-4 animate-in fade-in duration-500">
+      <label className="text-[10px] text-slate-500 block uppercase font-black tracking-[0.2em] flex items-center gap-2">
+        <Piano className="w-3.5 h-3.5" /> MIDI Control
+      </label>
+
+      {inputs === null ? (
+        <button onClick={onConnect} className="w-full py-3 rounded-xl bg-violet-600 text-white text-[10px] font-black uppercase tracking-widest transition-all">
+          Connect MIDI Devices
+        </button>
+      ) : (
+        <div className="text-[9px] text-slate-500 font-bold uppercase tracking-widest">
+          {inputs.length > 0 ? inputs.join(' · ') : 'No hardware found · virtual input only'}
+        </div>
+      )}
+
+      <div className="bg-slate-950/50 p-4 rounded-2xl border border-white/5">
+        <div className="flex justify-between text-[9px] font-black uppercase tracking-widest mb-2">
+          <span className="text-slate-500">Master Dimmer</span>
+          <span className="text-violet-400">{Math.round(master * 100)}%</span>
+        </div>
+        <input
+          type="range" min="0" max="1" step="0.01"
+          value={master}
+          onChange={(e) => onMaster(parseFloat(e.target.value))}
+          className="w-full accent-violet-500"
+        />
+      </div>
+
+      <div className="bg-slate-950/50 p-4 rounded-2xl border border-white/5 space-y-3">
+        <select value={action} onChange={(e) => setAction(e.target.value as MidiTarget['action'])} className={selectClass}>
+          {ACTIONS.map(a => <option key={a.action} value={a.action}>{a.label}</option>)}
+        </select>
+        {action !== 'master' && action !== 'version' && (
+          <select value={shapeId} onChange={(e) => setShapeId(e.target.value)} className={selectClass}>
+            {shapes.length === 0 && <option value="">No surfaces</option>}
+            {shapes.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        )}
+        {action === 'effect' && (
+          <select value={effect} onChange={(e) => setEffect(e.target.value as EffectType)} className={selectClass}>
+            {Object.values(EffectType).map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        )}
+        {action === 'version' && (
+          <select value={versionId} onChange={(e) => setVersionId(e.target.value)} className={selectClass}>
+            {versions.length === 0 && <option value="">No snapshots</option>}
+            {versions.map(v => <option key={v.id} value={v.id}>{v.name}</option>)}
+          </select>
+        )}
+        {learning ? (
+          <button onClick={onCancelLearn} className="w-full flex items-center justify-center gap-2 py-3 rounded-xl bg-violet-600 text-white text-[10px] font-black uppercase tracking-widest animate-pulse">
+            <X className="w-3.5 h-3.5" /> Move a control to bind…
+          </button>
+        ) : (
+          <button
+            onClick={() => target && onLearn(target)}
+            disabled={!target}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-violet-500/50 text-violet-300 text-[10px] font-black uppercase tracking-widest hover:bg-violet-500/10 disabled:opacity-30 transition-all"
+          >
+            <Radio className="w-3.5 h-3.5" /> Learn
+          </button>
+        )}
+      </div>
+
+      <div className="text-[9px] text-slate-600 font-bold uppercase tracking-widest">
+        Last: {lastEvent ? `${describeTrigger(lastEvent)} = ${Math.round(lastEvent.value * 127)} (${lastEvent.source})` : '—'}
+      </div>
+
+      <div className="flex flex-col gap-2">
+        {mappings.map(mapping => (
+          <div key={mapping.id} className="group flex items-center justify-between p-3 rounded-2xl border bg-slate-950 border-white/5">
+            <div className="flex flex-col min-w-0">
+              <span className="text-[10px] font-black text-violet-300 uppercase tracking-wider">{describeTrigger(mapping.trigger)}</span>
+              <span className="text-[9px] text-slate-400 font-bold truncate">{describeTarget(mapping.target)}</span>
+            </div>
+            <button onClick={() => onDelete(mapping.id)} className="p-1.5 rounded-lg text-slate-500 hover:text-red-500 opacity-40 group-hover:opacity-100 transition-all">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="pt-4 border-t border-white/5 space-y-3">
+        <label className="text-[9px] text-slate-500 block uppercase font-black tracking-widest">Virtual Input · Ch 1</label>
+        <div className="flex items-center gap-3">
+          <input
+            type="number" min="0" max="127"
+            value={virtualCc}
+            onChange={(e) => setVirtualCc(Math.max(0, Math.min(127, parseInt(e.target.value, 10) || 0)))}
+            className="w-14 bg-slate-950 border border-white/10 rounded-lg px-2 py-1 text-[10px] text-white focus:outline-none"
+            title="CC number"
+          />
+          <input
+            type="range" min="0" max="127" step="1"
+            value={virtualValue}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              setVirtualValue(value);
+              emitVirtualMidi({ kind: 'cc', channel: 1, number: virtualCc }, value / 127);
+            }}
+            className="flex-1 accent-violet-500"
+          />
+        </div>
+        <div className="grid grid-cols-4 gap-2">
+          {VIRTUAL_PADS.map(note => (
+            <button
+              key={note}
+              onPointerDown={() => emitVirtualMidi({ kind: 'note', channel: 1, number: note }, 1)}
+              onPointerUp={() => emitVirtualMidi({ kind: 'note', channel: 1, number: note }, 0)}
+              className="h-10 rounded-lg bg-slate-950 border border-white/10 text-[9px] font-black text-slate-500 active:bg-violet-600 active:text-white transition-colors"
+            >
+              {note}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MidiPanel;
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { Monitor, Plus, Trash2, Cast, Columns, SquareDashed, RotateCcw } from 'lucide-react';
+import { OutputRegion, EdgeBlend, BlendCurve, Keystone } from '../types.ts';
+import { createOutput, tileOutputs } from '../utils/edgeBlend.ts';
+import { DEFAULT_KEYSTONE, createKeystoneMesh, isIdentityKeystone } from '../utils/keystone.ts';
+import { resampleMesh } from '../utils/geometry.ts';
+
+interface OutputPanelProps {
+  outputs: OutputRegion[];
+  onChange: (outputs: OutputRegion[]) => void;
+  onOpen: (id: string) => void;
+  keystone: Keystone;
+  onKeystoneChange: (keystone: Keystone) => void;
+  adjustingKeystone: boolean;
+  onAdjustKeystone: (adjusting: boolean) => void;
+}
+
+const REGION_FIELDS: { key: 'x' | 'y' | 'width' | 'height'; label: string; min: number }[] = [
+  { key: 'x', label: 'Left', min: 0 },
+  { key: 'y', label: 'Top', min: 0 },
+  { key: 'width', label: 'Width', min: 0.05 },
+  { key: 'height', label: 'Height', min: 0.05 },
+];
+
+const BLEND_SIDES: ('left' | 'right' | 'top' | 'bottom')[] = ['left', 'right', 'top', 'bottom'];
+const CURVES: BlendCurve[] = ['linear', 'smoothstep', 'cosine'];
+// Keystone lattice sizes offered, in pins per side; 0 is a plain corner pin
+const KEYSTONE_MESH_SIZES = [0, 3, 4, 5];
+
+const OutputPanel: React.FC<OutputPanelProps> = ({ outputs, onChange, onOpen, keystone, onKeystoneChange, adjustingKeystone, onAdjustKeystone }) => {
+  const [overlap, setOverlap] = useState(0.1);
+  const [expandedId, setExpandedId] = useState<string | null>(outputs[0]?.id ?? null);
+
+  const update = (id: string, patch: Partial<OutputRegion>) =>
+    onChange(outputs.map(o => o.id === id ? { ...o, ...patch } : o));
+
+  const updateBlend = (output: OutputRegion, patch: Partial<EdgeBlend>) =>
+    update(output.id, { blend: { ...output.blend, ...patch } });
+
+  // Resizing keeps the current bends by resampling the lattice
+  const setKeystoneMesh = (size: number) => {
+    if (size === 0) { const { mesh, ...pin } = keystone; onKeystoneChange(pin); return; }
+    onKeystoneChange({ ...keystone, mesh: keystone.mesh ? resampleMesh(keystone.mesh, size, size) : createKeystoneMesh(size, size) });
+  };
+
+  const addOutput = () => {
+    const output = createOutput(outputs.length);
+    onChange([...outputs, output]);
+    setExpandedId(output.id);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 animate-in fade-in duration-500">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] text-slate-500 block uppercase font-black tracking-[0.2em] flex items-center gap-2">
+          <Monitor className="w-3.5 h-3.5" /> Outputs
+        </label>
+        <button onClick={addOutput} className="p-2 rounded-xl bg-amber-500 text-black transition-all" title="Add output">
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {outputs.length > 1 && (
+        <div className="bg-slate-950/50 p-4 rounded-2xl border border-white/5 space-y-3">
+          <div className="flex justify-between text-[9px] text-slate-500 uppercase font-black tracking-widest">
+            <span>Overlap</span>
+            <span className="text-amber-400">{Math.round(overlap * 100)}%</span>
+          </div>
+          <input
+            type="range" min="0" max="0.4" step="0.01"
+            value={overlap}
+            onChange={(e) => setOverlap(parseFloat(e.target.value))}
+            className="w-full accent-amber-500"
+          />
+          <button
+            onClick={() => onChange(tileOutputs(outputs, overlap))}
+            className="w-full flex items-center justify-center gap-2 py-2 rounded-lg border border-white/10 text-[9px] font-black uppercase tracking-widest text-slate-300 hover:border-amber-500/50 transition-all"
+          >
+            <Columns className="w-3.5 h-3.5" /> Tile Side by Side
+          </button>
+        </div>
+      )}
+
+      {outputs.length === 0 && (
+        <div className="py-10 text-center border border-dashed border-white/10 rounded-3xl text-[10px] text-slate-600 font-black uppercase tracking-widest">
+          Single projector · full stage
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        {outputs.map(output => (
+          <div key={output.id} className={`rounded-2xl border transition-all ${expandedId === output.id ? 'bg-amber-500/5 border-amber-500/40' : 'bg-slate-950 border-white/5'}`}>
+            <div
+              onClick={() => setExpandedId(expandedId === output.id ? null : output.id)}
+              className="flex items-center justify-between p-3 cursor-pointer"
+            >
+              <input
+                value={output.name}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => update(output.id, { name: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent text-xs font-black uppercase tracking-wider text-white focus:outline-none"
+              />
+              <div className="flex items-center gap-1">
+                <button onClick={(e) => { e.stopPropagation(); onOpen(output.id); }} className="p-1.5 rounded-lg text-slate-400 hover:text-white transition-colors" title="Open output window">
+                  <Cast className="w-4 h-4" />
+                </button>
+                <button onClick={(e) => { e.stopPropagation(); onChange(outputs.filter(o => o.id !== output.id)); }} className="p-1.5 rounded-lg text-slate-400 hover:text-red-500 transition-colors" title="Remove output">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
+            {expandedId === output.id && (
+              <div className="px-3 pb-4 space-y-5">
+                <div className="grid grid-cols-2 gap-3">
+                  {REGION_FIELDS.map(({ key, label, min }) => (
+                    <div key={key}>
+                      <label className="text-[9px] text-slate-500 block uppercase font-black tracking-widest mb-1">{label} · {Math.round(output[key] * 100)}%</label>
+                      <input
+                        type="range" min={min} max="1" step="0.01"
+                        value={output[key]}
+                        onChange={(e) => update(output.id, { [key]: parseFloat(e.target.value) })}
+                        className="w-full accent-amber-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div>
+                  <label className="text-[9px] text-slate-500 block uppercase font-black tracking-widest mb-2">Edge Blend</label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {BLEND_SIDES.map(side => (
+                      <div key={side}>
+                        <label className="text-[9px] text-slate-500 block uppercase font-black tracking-widest mb-1">{side} · {Math.round(output.blend[side] * 100)}%</label>
+                        <input
+                          type="range" min="0" max="0.5" step="0.005"
+                          value={output.blend[side]}
+                          onChange={(e) => updateBlend(output, { [side]: parseFloat(e.target.value) })}
+                          className="w-full accent-amber-500"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex justify-between text-[9px] text-slate-500 uppercase font-black tracking-widest mb-1">
+                    <span>Gamma</span>
+                    <span className="text-amber-400">{output.blend.gamma.toFixed(1)}</span>
+                  </div>
+                  <input
+                    type="range" min="1" max="3" step="0.1"
+                    value={output.blend.gamma}
+                    onChange={(e) => updateBlend(output, { gamma: parseFloat(e.target.value) })}
+                    className="w-full accent-amber-500"
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-2">
+                  {CURVES.map(curve => (
+                    <button
+                      key={curve}
+                      onClick={() => updateBlend(output, { curve })}
+                      className={`py-2 rounded-lg border text-[8px] font-black uppercase tracking-widest transition-all ${output.blend.curve === curve ? 'bg-amber-500 text-black border-amber-400' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
+                    >
+                      {curve}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-slate-950/50 p-4 rounded-2xl border border-white/5 space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-[9px] text-slate-500 block uppercase font-black tracking-widest">Keystone</label>
+          <button
+            onClick={() => onKeystoneChange(DEFAULT_KEYSTONE)}
+            disabled={isIdentityKeystone(keystone) && !keystone.mesh}
+            className="p-1.5 rounded-lg text-slate-400 hover:text-white transition-colors disabled:opacity-30"
+            title="Reset keystone"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+        </div>
+        <button
+          onClick={() => onAdjustKeystone(!adjustingKeystone)}
+          className={`w-full flex items-center justify-center gap-2 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${adjustingKeystone ? 'bg-amber-500 text-black' : 'border border-amber-500/50 text-amber-300 hover:bg-amber-500/10'}`}
+        >
+          <SquareDashed className="w-3.5 h-3.5" /> {adjustingKeystone ? 'Done' : 'Adjust Corners'}
+        </button>
+        <div>
+          <label className="text-[9px] text-slate-500 block uppercase font-black tracking-widest mb-2">Mesh</label>
+          <div className="grid grid-cols-4 gap-2">
+            {KEYSTONE_MESH_SIZES.map(size => (
+              <button
+                key={size}
+                onClick={() => setKeystoneMesh(size)}
+                className={`py-2 rounded-lg border text-[8px] font-black uppercase tracking-widest transition-all ${(keystone.mesh?.columns ?? 0) === size ? 'bg-amber-500 text-black border-amber-400' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
+              >
+                {size ? `${size}×${size}` : 'Off'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-[9px] text-slate-600 leading-relaxed font-medium">
+          Drag the corners on the editor canvas until the alignment grid sits square on the wall. Every output window applies
+          the same pin to its whole frame, so surfaces keep their points.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default OutputPanel;
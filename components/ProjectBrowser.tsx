@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { FolderOpen, Plus, Copy, Trash2, Pencil, Check } from 'lucide-react';
+import { Project } from '../types.ts';
+
+interface ProjectBrowserProps {
+  projects: Project[];
+  activeProjectId: string | null;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProjectBrowser: React.FC<ProjectBrowserProps> = ({
+  projects,
+  activeProjectId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete
+}) => {
+  const [newProjectName, setNewProjectName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const handleCreate = () => {
+    if (!newProjectName.trim()) return;
+    onCreate(newProjectName.trim());
+    setNewProjectName('');
+  };
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) onRename(editingId, editingName.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-4 animate-in fade-in duration-500">
+      <label className="text-[10px] text-slate-500 block uppercase font-black tracking-[0.2em] flex items-center gap-2">
+        <FolderOpen className="w-3.5 h-3.5" /> Projects
+      </label>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          placeholder="New project name"
+          value={newProjectName}
+          onChange={(e) => setNewProjectName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          className="flex-1 bg-slate-950 border border-white/10 rounded-xl px-4 py-3 text-sm text-white focus:outline-none focus:ring-2 focus:ring-[#00b5cc] transition-all"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={!newProjectName.trim()}
+          className="w-12 h-12 rounded-xl flex items-center justify-center bg-[#00b5cc] text-black disabled:opacity-30 transition-all"
+        >
+          <Plus className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-2 max-h-[260px] overflow-y-auto custom-scrollbar pr-2">
+        {[...projects].sort((a, b) => b.updatedAt - a.updatedAt).map(project => (
+          <div
+            key={project.id}
+            onClick={() => project.id !== activeProjectId && onSwitch(project.id)}
+            className={`group flex items-center justify-between p-3 rounded-2xl border cursor-pointer transition-all ${project.id === activeProjectId ? 'bg-[#00b5cc]/10 border-[#00b5cc]/50 text-white' : 'bg-slate-950 border-white/5 text-slate-400 hover:border-white/20'}`}
+          >
+            {editingId === project.id ? (
+              <input
+                autoFocus
+                value={editingName}
+                onClick={(e) => e.stopPropagation()}
+                onChange={(e) => setEditingName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                onBlur={commitRename}
+                className="flex-1 min-w-0 bg-black border border-white/10 rounded-lg px-2 py-1 text-xs text-white focus:outline-none"
+              />
+            ) : (
+              <div className="flex flex-col min-w-0">
+                <span className="text-xs font-black uppercase tracking-wider truncate">{project.name}</span>
+                <span className="text-[8px] font-bold text-slate-500 uppercase mt-0.5">
+                  {project.shapes.length} surfaces · {project.versions.length} snapshots
+                </span>
+              </div>
+            )}
+            <div className="flex items-center gap-1 opacity-40 group-hover:opacity-100 transition-opacity">
+              {editingId === project.id ? (
+                <button onClick={(e) => { e.stopPropagation(); commitRename(); }} className="p-1.5 rounded-lg hover:text-white transition-colors">
+                  <Check className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  onClick={(e) => { e.stopPropagation(); setEditingId(project.id); setEditingName(project.name); }}
+                  className="p-1.5 rounded-lg hover:text-white transition-colors"
+                  title="Rename"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+              )}
+              <button
+                onClick={(e) => { e.stopPropagation(); onDuplicate(project.id); }}
+                className="p-1.5 rounded-lg hover:text-white transition-colors"
+                title="Duplicate"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  if (confirm(`Delete project "${project.name}"?`)) onDelete(project.id);
+                }}
+                disabled={projects.length <= 1}
+                className="p-1.5 rounded-lg hover:text-red-500 transition-colors disabled:opacity-30 disabled:hover:text-inherit"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectBrowser;
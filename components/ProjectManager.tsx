@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { Save, History, Download, Upload, Trash2, Clock, FileJson, Check, Plus } from 'lucide-react';
 import { Shape, ProjectVersion } from '../types.ts';
+import { BUNDLE_EXTENSION } from '../services/projectBundle.ts';
 
 interface ProjectManagerProps {
   shapes: Shape[];
@@ -108,15 +109,15 @@ const ProjectManager: React.FC<ProjectManagerProps> = ({
             onClick={onExport}
             className="flex items-center justify-center gap-2 py-3 bg-slate-900 border border-white/10 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white hover:bg-slate-800 transition-all"
           >
-            <Download className="w-3.5 h-3.5" /> Download .JSON
+            <Download className="w-3.5 h-3.5" /> Download Bundle
           </button>
           <label className="flex items-center justify-center gap-2 py-3 bg-slate-900 border border-white/10 rounded-xl text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-white hover:bg-slate-800 transition-all cursor-pointer">
             <Upload className="w-3.5 h-3.5" /> Import File
-            <input type="file" className="hidden" accept=".json" onChange={onImport} />
+            <input type="file" className="hidden" accept={`${BUNDLE_EXTENSION},.json`} onChange={onImport} />
           </label>
         </div>
         <p className="text-[8px] text-slate-600 font-bold uppercase text-center tracking-[0.1em]">
-          Files contain all surfaces, paths, and styles
+          Bundles contain all surfaces, snapshots, and media
         </p>
       </div>
     </div>
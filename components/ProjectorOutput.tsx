@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Canvas from './Canvas.tsx';
+import { Shape, OutputRegion, Keystone, Cue, Transport, TempoClock, CalibrationPattern } from '../types.ts';
+import { openProjectorChannel, projectorOutputId, ProjectorMessage } from '../services/projectorSync.ts';
+import { togglePlayback, goToNextCue, seekTransport } from '../utils/timeline.ts';
+import { setAudioSource, setAudioMonitor, resumeAudio, AudioSourceConfig } from '../services/audioEngine.ts';
+
+/**
+ * Clean projector feed rendered in its own window.
+ * Receives every state change from the editor and never shows handles or selection.
+ */
+const ProjectorOutput: React.FC = () => {
+  const [shapes, setShapes] = useState<Shape[]>([]);
+  const [outputs, setOutputs] = useState<OutputRegion[]>([]);
+  const [keystone, setKeystone] = useState<Keystone | null>(null);
+  const [keystoneSetup, setKeystoneSetup] = useState(false);
+  const [cues, setCues] = useState<Cue[]>([]);
+  const [transport, setTransport] = useState<Transport | null>(null);
+  const [audio, setAudio] = useState<AudioSourceConfig | null>(null);
+  const [tempo, setTempo] = useState<TempoClock | undefined>(undefined);
+  const [master, setMaster] = useState(1);
+  const [pattern, setPattern] = useState<CalibrationPattern | null>(null);
+  const [connected, setConnected] = useState(false);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+  const showRef = useRef({ cues, transport });
+  showRef.current = { cues, transport };
+  // A window opened for an output region shows just that slice of the stage, edge-blended
+  const outputId = projectorOutputId();
+  const output = outputId ? outputs.find(o => o.id === outputId) : undefined;
+
+  useEffect(() => {
+    const channel = openProjectorChannel();
+    channel.onmessage = (e: MessageEvent<ProjectorMessage>) => {
+      if (e.data.type === 'state') {
+        setShapes(e.data.state.shapes);
+        setOutputs(e.data.state.outputs ?? []);
+        setKeystone(e.data.state.keystone ?? null);
+        setKeystoneSetup(!!e.data.state.keystoneSetup);
+        setCues(e.data.state.cues ?? []);
+        setTransport(e.data.state.transport ?? null);
+        setAudio(e.data.state.audio ?? null);
+        setTempo(e.data.state.tempo);
+        setMaster(e.data.state.master ?? 1);
+        setConnected(true);
+      } else if (e.data.type === 'transport') {
+        setTransport(e.data.transport);
+      } else if (e.data.type === 'calibration') {
+        setPattern(e.data.pattern);
+      }
+    };
+    channel.postMessage({ type: 'request-state' } as ProjectorMessage);
+    channelRef.current = channel;
+    document.title = 'LumeMap - Projector Output';
+    return () => { channel.close(); channelRef.current = null; };
+  }, []);
+
+  // Audio-reactive effects analyse here too; the editor window is the one that plays the sound
+  useEffect(() => { setAudioMonitor(false); }, []);
+  useEffect(() => {
+    setAudioSource(audio).catch(err => console.error("Audio source error:", err));
+  }, [audio?.kind, audio?.kind === 'shape' ? audio.shapeId : null]);
+
+  // Show control, with the editor hidden or closed: Space plays / pauses, Right or Page Down (presentation clickers) goes to the next cue, Home rewinds
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      resumeAudio();
+      const { cues, transport } = showRef.current;
+      let next: Transport | null | undefined;
+      if (e.key === ' ') next = togglePlayback(transport);
+      else if (e.key === 'ArrowRight' || e.key === 'PageDown') next = goToNextCue(cues, transport);
+      else if (e.key === 'Home' && transport) next = seekTransport(transport, 0);
+      if (next === undefined) return;
+      e.preventDefault();
+      setTransport(next);
+      channelRef.current?.postMessage({ type: 'transport', transport: next } as ProjectorMessage);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else document.documentElement.requestFullscreen().catch(err => console.error("Fullscreen error:", err));
+  };
+
+  return (
+    <div className="h-screen w-screen bg-black overflow-hidden cursor-none" onDoubleClick={toggleFullscreen} onPointerDown={resumeAudio}>
+      {/* The master keystone bends every finished frame, calibration patterns included */}
+      <Canvas
+        shapes={shapes}
+        selectedShapeId={null}
+        mode={keystoneSetup ? 'KEYSTONE' : 'PROJECTING'}
+        showCamera={false}
+        globalTestPattern={false}
+        isProjector
+        output={output}
+        show={transport ? { cues, transport } : undefined}
+        tempo={tempo}
+        master={master}
+        keystone={keystone ?? undefined}
+        calibrationPattern={pattern}
+        currentDrawingPoints={[]}
+        onPointsUpdate={() => {}}
+        onModeChange={() => {}}
+        onSelectShapes={() => {}}
+        onDrawingUpdate={() => {}}
+      />
+      {!connected && (
+        <div className="fixed inset-0 flex items-center justify-center pointer-events-none text-[10px] font-black uppercase tracking-[0.3em] text-zinc-600">
+          Waiting for editor...
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectorOutput;
@@ -1,33 +1,56 @@
 
 import React, { useRef } from 'react';
-import { Settings, Boxes, Zap, Paintbrush, Video, Upload, Image as ImageIcon, MonitorPlay, Film, Waves, Maximize, Crop } from 'lucide-react';
-import { Shape, EffectType, ShapeStyle, FillType, MappingMode } from '../types.ts';
+import { Settings, Boxes, Zap, Paintbrush, Video, Upload, Image as ImageIcon, MonitorPlay, Film, Waves, Maximize, Crop, Grid3X3, RotateCcw, PenTool, Volume2, VolumeX } from 'lucide-react';
+import { Shape, EffectType, ShapeStyle, FillType, MappingMode, MeshLattice, BlendCurve, StrokeAlign, StrokeDash, StrokeEffect, AudioBand, BeatDivision } from '../types.ts';
+import { createMeshLattice, resampleMesh, MESH_MIN_SIZE, MESH_MAX_SIZE } from '../utils/geometry.ts';
+import { BEAT_DIVISIONS, formatDivision } from '../utils/tempo.ts';
+import { saveAsset, getAssetUrl } from '../services/assetStore.ts';
 
 interface PropertyPanelProps {
   shape: Shape;
   onUpdateStyle: (style: Partial<ShapeStyle>) => void;
   onUpdateName: (name: string) => void;
+  onUpdateMesh: (mesh: MeshLattice, scrubbing?: boolean) => void; // scrubbing updates coalesce until onEditEnd
+  onEditEnd: () => void;
 }
 
-const PropertyPanel: React.FC<PropertyPanelProps> = ({ shape, onUpdateStyle, onUpdateName }) => {
+const PropertyPanel: React.FC<PropertyPanelProps> = ({ shape, onUpdateStyle, onUpdateName, onUpdateMesh, onEditEnd }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // Lattice as it was when a size slider was grabbed; every tick resamples from it so scrubbing back restores it
+  const meshScrubBase = useRef<MeshLattice | null>(null);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Each slider or color-picker gesture is its own undo step: seal when it lets go
+  const endGesture = (e: React.SyntheticEvent) => {
+    const { type } = e.target as HTMLInputElement;
+    if (type === 'range' || type === 'color') onEditEnd();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    if (!file.type.startsWith('video/') && !file.type.startsWith('image/')) return;
 
-    const url = URL.createObjectURL(file);
-    if (file.type.startsWith('video/')) {
-      onUpdateStyle({ fillType: FillType.VIDEO, videoSrc: url, videoMuted: true });
-    } else if (file.type.startsWith('image/')) {
-      onUpdateStyle({ fillType: FillType.IMAGE, imageSrc: url });
+    try {
+      const assetId = await saveAsset(file);
+      const url = await getAssetUrl(assetId);
+      if (file.type.startsWith('video/')) {
+        onUpdateStyle({ fillType: FillType.VIDEO, videoSrc: url, videoAssetId: assetId, videoMuted: true });
+      } else {
+        onUpdateStyle({ fillType: FillType.IMAGE, imageSrc: url, imageAssetId: assetId });
+      }
+    } catch (err) {
+      console.error("Asset store error:", err);
     }
   };
 
   const isMediaFill = shape.style.fillType === FillType.VIDEO || shape.style.fillType === FillType.IMAGE;
+  const isMesh = shape.style.mappingMode === MappingMode.MESH;
+  const isTempoEffect = [EffectType.STROBE, EffectType.BREATHE, EffectType.RAINBOW].includes(shape.style.effect);
+  const isAudioEffect = [EffectType.AUDIO_PULSE, EffectType.AUDIO_COLOR, EffectType.AUDIO_SCALE].includes(shape.style.effect);
+  const mesh = shape.mesh ?? createMeshLattice(shape);
 
   return (
-    <div className="flex flex-col gap-6 animate-in fade-in duration-500">
+    <div className="flex flex-col gap-6 animate-in fade-in duration-500" onPointerUp={endGesture} onKeyUp={endGesture} onBlur={endGesture}>
       <div className="space-y-6">
         {/* Surface Name */}
         <div>
@@ -106,11 +129,11 @@ const PropertyPanel: React.FC<PropertyPanelProps> = ({ shape, onUpdateStyle, onU
           </div>
         </div>
 
-        {isMediaFill && (
+        {(isMediaFill || isMesh || shape.style.fillType !== FillType.SOLID) && (
           <div className="bg-slate-950/50 p-4 rounded-2xl border border-white/5 space-y-5 animate-in slide-in-from-top-4">
             <div>
               <label className="text-[9px] text-slate-500 block uppercase font-black tracking-widest mb-3">Fit Mode</label>
-              <div className="grid grid-cols-2 gap-2">
+              <div className="grid grid-cols-3 gap-2">
                 <button 
                   onClick={() => onUpdateStyle({ mappingMode: MappingMode.MASK })}
                   className={`flex items-center justify-center gap-2 py-2 rounded-lg border text-[9px] font-black uppercase tracking-widest transition-all ${shape.style.mappingMode === MappingMode.MASK ? 'bg-white text-black border-white' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
@@ -123,9 +146,69 @@ const PropertyPanel: React.FC<PropertyPanelProps> = ({ shape, onUpdateStyle, onU
                 >
                   <Maximize className="w-3.5 h-3.5" /> Stretch
                 </button>
+                <button 
+                  onClick={() => onUpdateStyle({ mappingMode: MappingMode.MESH })}
+                  className={`flex items-center justify-center gap-2 py-2 rounded-lg border text-[9px] font-black uppercase tracking-widest transition-all ${isMesh ? 'bg-yellow-500 text-black border-yellow-400' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
+                >
+                  <Grid3X3 className="w-3.5 h-3.5" /> Mesh
+                </button>
               </div>
             </div>
 
+            {isMesh && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-3">
+                  {(['columns', 'rows'] as const).map(axis => (
+                    <div key={axis}>
+                      <label className="text-[9px] text-slate-500 block uppercase font-black tracking-widest mb-2">{axis} · {mesh[axis]}</label>
+                      <input 
+                        type="range" 
+                        min={MESH_MIN_SIZE} max={MESH_MAX_SIZE} step="1"
+                        value={mesh[axis]}
+                        onPointerDown={() => { meshScrubBase.current = mesh; }}
+                        onKeyDown={() => { meshScrubBase.current ??= mesh; }}
+                        onChange={(e) => {
+                          const value = parseInt(e.target.value, 10);
+                          const base = meshScrubBase.current ?? mesh;
+                          onUpdateMesh(axis === 'columns' ? resampleMesh(base, value, base.rows) : resampleMesh(base, base.columns, value), true);
+                        }}
+                        onPointerUp={() => { meshScrubBase.current = null; }}
+                        onKeyUp={() => { meshScrubBase.current = null; }}
+                        className="w-full accent-yellow-400"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['bilinear', 'spline'] as const).map(mode => (
+                    <button 
+                      key={mode}
+                      onClick={() => onUpdateMesh({ ...mesh, interpolation: mode })}
+                      className={`py-2 rounded-lg border text-[9px] font-black uppercase tracking-widest transition-all ${mesh.interpolation === mode ? 'bg-white text-black border-white' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
+                    >
+                      {mode}
+                    </button>
+                  ))}
+                  <button 
+                    onClick={() => onUpdateMesh(createMeshLattice(shape, mesh.columns, mesh.rows))}
+                    className="flex items-center justify-center gap-1 py-2 rounded-lg border border-white/10 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:border-white/30 transition-all"
+                  >
+                    <RotateCcw className="w-3 h-3" /> Reset
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {shape.style.fillType === FillType.VIDEO && shape.style.videoSrc && (
+              <button 
+                onClick={() => onUpdateStyle({ videoMuted: shape.style.videoMuted === false })}
+                className={`w-full flex items-center justify-center gap-2 py-2 rounded-lg border text-[9px] font-black uppercase tracking-widest transition-all ${shape.style.videoMuted === false ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/40' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
+              >
+                {shape.style.videoMuted === false ? <><Volume2 className="w-3.5 h-3.5" /> Audio On</> : <><VolumeX className="w-3.5 h-3.5" /> Muted</>}
+              </button>
+            )}
+
+            {isMediaFill && (
             <div 
               onClick={() => fileInputRef.current?.click()}
               className="group relative w-full h-24 border-2 border-dashed border-white/10 rounded-2xl flex flex-col items-center justify-center gap-2 bg-black hover:bg-slate-900 cursor-pointer transition-all hover:border-[#00b5cc]/40 overflow-hidden"
@@ -141,6 +224,7 @@ const PropertyPanel: React.FC<PropertyPanelProps> = ({ shape, onUpdateStyle, onU
               </div>
               <input type="file" ref={fileInputRef} onChange={handleFileChange} className="hidden" accept={shape.style.fillType === FillType.VIDEO ? "video/*" : "image/*"} />
             </div>
+            )}
           </div>
         )}
 
@@ -170,6 +254,129 @@ const PropertyPanel: React.FC<PropertyPanelProps> = ({ shape, onUpdateStyle, onU
           </div>
         </div>
 
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="text-[10px] text-slate-500 block uppercase font-black tracking-widest">Soft Edge</label>
+            <span className="text-[10px] text-[#00b5cc] font-black">{Math.round((shape.style.feather ?? 0) * 100)}%</span>
+          </div>
+          <input 
+            type="range" 
+            min="0" max="0.2" step="0.005"
+            value={shape.style.feather ?? 0}
+            onChange={(e) => onUpdateStyle({ feather: parseFloat(e.target.value) })}
+            className="w-full accent-[#00b5cc]"
+          />
+          {(shape.style.feather ?? 0) > 0 && (
+            <div className="grid grid-cols-3 gap-2 mt-3">
+              {(['linear', 'smoothstep', 'cosine'] as BlendCurve[]).map(curve => (
+                <button 
+                  key={curve}
+                  onClick={() => onUpdateStyle({ featherCurve: curve })}
+                  className={`py-2 rounded-lg border text-[8px] font-black uppercase tracking-widest transition-all ${(shape.style.featherCurve ?? 'smoothstep') === curve ? 'bg-[#00b5cc] text-black border-[#00b5cc]' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
+                >
+                  {curve}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="pt-4 border-t border-white/5 space-y-4">
+          <label className="text-[10px] text-slate-500 block uppercase font-black tracking-widest flex items-center gap-2">
+            <PenTool className="w-3.5 h-3.5 text-[#00b5cc]" /> Outline
+          </label>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex items-center gap-2 bg-slate-950 border border-white/5 p-2 rounded-xl">
+              <input 
+                type="color" 
+                value={shape.style.strokeColor}
+                onChange={(e) => onUpdateStyle({ strokeColor: e.target.value })}
+                className="w-full h-8 bg-transparent rounded cursor-pointer border-none"
+              />
+            </div>
+            <div>
+              <div className="flex justify-between text-[9px] text-slate-500 uppercase font-black tracking-widest mb-1">
+                <span>Width</span>
+                <span className="text-[#00b5cc]">{shape.style.strokeWidth}px</span>
+              </div>
+              <input 
+                type="range" 
+                min="0" max="40" step="1"
+                value={shape.style.strokeWidth}
+                onChange={(e) => onUpdateStyle({ strokeWidth: parseInt(e.target.value, 10) })}
+                className="w-full accent-[#00b5cc]"
+              />
+            </div>
+          </div>
+
+          {shape.style.strokeWidth > 0 && (
+            <>
+              <div className="grid grid-cols-3 gap-2">
+                {(['inside', 'center', 'outside'] as StrokeAlign[]).map(align => (
+                  <button 
+                    key={align}
+                    onClick={() => onUpdateStyle({ strokeAlign: align })}
+                    className={`py-2 rounded-lg border text-[8px] font-black uppercase tracking-widest transition-all ${(shape.style.strokeAlign ?? 'center') === align ? 'bg-[#00b5cc] text-black border-[#00b5cc]' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
+                  >
+                    {align}
+                  </button>
+                ))}
+                {(['solid', 'dashed', 'dotted'] as StrokeDash[]).map(dash => (
+                  <button 
+                    key={dash}
+                    onClick={() => onUpdateStyle({ strokeDash: dash })}
+                    className={`py-2 rounded-lg border text-[8px] font-black uppercase tracking-widest transition-all ${(shape.style.strokeDash ?? 'solid') === dash ? 'bg-white text-black border-white' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
+                  >
+                    {dash}
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <div className="flex justify-between text-[9px] text-slate-500 uppercase font-black tracking-widest mb-1">
+                  <span>Glow</span>
+                  <span className="text-[#00b5cc]">{shape.style.strokeGlow ?? 0}px</span>
+                </div>
+                <input 
+                  type="range" 
+                  min="0" max="60" step="1"
+                  value={shape.style.strokeGlow ?? 0}
+                  onChange={(e) => onUpdateStyle({ strokeGlow: parseInt(e.target.value, 10) })}
+                  className="w-full accent-[#00b5cc]"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                {Object.values(StrokeEffect).map(effect => (
+                  <button 
+                    key={effect}
+                    onClick={() => onUpdateStyle({ strokeEffect: effect })}
+                    className={`text-[9px] font-black uppercase py-2 rounded-xl border transition-all ${(shape.style.strokeEffect ?? StrokeEffect.NONE) === effect ? 'bg-yellow-500 text-black border-yellow-400' : 'bg-slate-950 border-white/5 text-slate-500'}`}
+                  >
+                    {effect}
+                  </button>
+                ))}
+              </div>
+
+              {shape.style.strokeEffect === StrokeEffect.CHASE && (
+                <div>
+                  <div className="flex justify-between text-[9px] text-slate-500 uppercase font-black tracking-widest mb-1">
+                    <span>Chase Speed</span>
+                    <span className="text-yellow-400">{shape.style.strokeSpeed ?? 5}</span>
+                  </div>
+                  <input 
+                    type="range" 
+                    min="-10" max="10" step="0.5"
+                    value={shape.style.strokeSpeed ?? 5}
+                    onChange={(e) => onUpdateStyle({ strokeSpeed: parseFloat(e.target.value) })}
+                    className="w-full accent-yellow-400"
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
         <div>
           <label className="text-[10px] text-slate-500 block mb-3 uppercase font-black tracking-widest flex items-center gap-2">
             <Zap className="w-3.5 h-3.5 text-yellow-400" /> FX Engine
@@ -185,6 +392,52 @@ const PropertyPanel: React.FC<PropertyPanelProps> = ({ shape, onUpdateStyle, onU
               </button>
             ))}
           </div>
+
+          {isTempoEffect && (
+            <div className="mt-4">
+              <label className="text-[9px] text-slate-500 block uppercase font-black tracking-widest mb-2">Tempo Sync (bars)</label>
+              <div className="grid grid-cols-5 gap-1.5">
+                {([undefined, ...BEAT_DIVISIONS] as (BeatDivision | undefined)[]).map(division => (
+                  <button 
+                    key={division ?? 'free'}
+                    onClick={() => onUpdateStyle({ beatDivision: division })}
+                    className={`py-2 rounded-lg border text-[8px] font-black uppercase tracking-widest transition-all ${shape.style.beatDivision === division ? 'bg-rose-500 text-black border-rose-400' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
+                  >
+                    {division ? formatDivision(division) : 'Free'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isAudioEffect && (
+            <div className="mt-4 bg-slate-950/50 p-4 rounded-2xl border border-white/5 space-y-4 animate-in slide-in-from-top-2">
+              <div className="grid grid-cols-5 gap-1.5">
+                {(['level', 'bass', 'mid', 'treble', 'beat'] as AudioBand[]).map(band => (
+                  <button 
+                    key={band}
+                    onClick={() => onUpdateStyle({ audioBand: band })}
+                    className={`py-2 rounded-lg border text-[7px] font-black uppercase tracking-widest transition-all ${(shape.style.audioBand ?? 'level') === band ? 'bg-emerald-500 text-black border-emerald-400' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
+                  >
+                    {band}
+                  </button>
+                ))}
+              </div>
+              <div>
+                <div className="flex justify-between text-[9px] text-slate-500 uppercase font-black tracking-widest mb-1">
+                  <span>Sensitivity</span>
+                  <span className="text-emerald-400">{(shape.style.audioGain ?? 1).toFixed(1)}x</span>
+                </div>
+                <input 
+                  type="range" 
+                  min="0.2" max="5" step="0.1"
+                  value={shape.style.audioGain ?? 1}
+                  onChange={(e) => onUpdateStyle({ audioGain: parseFloat(e.target.value) })}
+                  className="w-full accent-emerald-500"
+                />
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { Network, Smartphone } from 'lucide-react';
+import { RemoteMessage, RemoteSettings, RemoteStatus, remoteViewUrl } from '../services/remoteControl.ts';
+
+interface RemotePanelProps {
+  settings: RemoteSettings;
+  status: RemoteStatus;
+  log: RemoteMessage[]; // most recent incoming messages, newest first
+  onChange: (settings: RemoteSettings) => void;
+}
+
+const STATUS_STYLES: Record<RemoteStatus, string> = {
+  open: 'bg-sky-400',
+  connecting: 'bg-amber-400 animate-pulse',
+  closed: 'bg-zinc-600',
+};
+
+const EXAMPLES = [
+  '/surfaces',
+  '/surface/<name>',
+  '/surface/<name>/opacity 0.5',
+  '/surface/<name>/visible false',
+  '/surface/<name>/effect strobe',
+  '/surface/<name>/style {"color":"#ff0000"}',
+];
+
+const RemotePanel: React.FC<RemotePanelProps> = ({ settings, status, log, onChange }) => {
+  const [url, setUrl] = useState(settings.url);
+
+  useEffect(() => { setUrl(settings.url); }, [settings.url]);
+
+  return (
+    <div className="flex flex-col gap-4 animate-in fade-in duration-500">
+      <label className="text-[10px] text-slate-500 block uppercase font-black tracking-[0.2em] flex items-center gap-2">
+        <Network className="w-3.5 h-3.5" /> Remote Control
+      </label>
+
+      <div className="bg-slate-950/50 p-4 rounded-2xl border border-white/5 space-y-3">
+        <input
+          type="text"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onBlur={() => url.trim() && url !== settings.url && onChange({ ...settings, url: url.trim() })}
+          onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+          className="w-full bg-slate-950 border border-white/10 rounded-xl px-3 py-2 text-xs font-mono text-white focus:outline-none focus:ring-2 focus:ring-sky-500"
+          placeholder="ws://localhost:9000"
+        />
+        <button
+          onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+          className={`w-full flex items-center justify-center gap-2 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${settings.enabled ? 'bg-sky-600 text-white' : 'border border-sky-500/50 text-sky-300 hover:bg-sky-500/10'}`}
+        >
+          <span className={`w-2 h-2 rounded-full ${settings.enabled ? STATUS_STYLES[status] : STATUS_STYLES.closed}`} />
+          {!settings.enabled ? 'Connect to Relay' : status === 'open' ? 'Connected · Disconnect' : 'Waiting for Relay · Cancel'}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <a href={remoteViewUrl()} target="_blank" rel="noreferrer" className="flex items-start gap-3 p-3 rounded-2xl border bg-slate-950 border-white/5 hover:border-white/20 transition-all">
+          <Smartphone className="w-4 h-4 text-sky-400 shrink-0 mt-0.5" />
+          <span className="flex flex-col gap-1 min-w-0">
+            <span className="text-[10px] font-mono text-sky-300 break-all">{remoteViewUrl()}</span>
+            <span className="text-[9px] text-slate-500 font-medium leading-relaxed">Open on a phone or tablet on the same network, using this computer's address in place of localhost.</span>
+          </span>
+        </a>
+      )}
+
+      <div className="flex flex-col gap-1">
+        {log.length === 0 && <div className="text-[9px] text-slate-600 font-bold uppercase tracking-widest">No messages yet</div>}
+        {log.map((message, index) => (
+          <div key={index} className="text-[10px] font-mono text-slate-400 truncate">
+            <span className="text-sky-300">{message.address}</span> {message.args?.map(a => String(a)).join(' ')}
+          </div>
+        ))}
+      </div>
+
+      <div className="pt-4 border-t border-white/5 space-y-1">
+        <label className="text-[9px] text-slate-500 block uppercase font-black tracking-widest mb-2">Addresses</label>
+        {EXAMPLES.map(example => (
+          <div key={example} className="text-[9px] font-mono text-slate-600 truncate">{example}</div>
+        ))}
+        <p className="text-[9px] text-slate-600 leading-relaxed font-medium pt-2">
+          Run <span className="font-mono text-slate-400">npm run relay</span> and point WebSocket or OSC (UDP 9001) tools at it. A message without arguments queries the value.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default RemotePanel;
@@ -0,0 +1,180 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Eye, EyeOff, Move } from 'lucide-react';
+import { EffectType, FillType } from '../types.ts';
+import { connectRemote, parseLayout, relayUrlForHost, LayoutSurface, RemoteArg, RemoteStatus } from '../services/remoteControl.ts';
+
+/**
+ * Phone / tablet remote for walking up to the wall.
+ * Talks to the running editor through the remote relay: shows a thumbnail of
+ * the layout, nudges the chosen vertex (or whole surface), toggles surfaces,
+ * switches fills and fires effects.
+ */
+
+const NUDGE_FINE = 0.001;
+const NUDGE_COARSE = 0.01;
+const THUMB_W = 160;
+const THUMB_H = 90;
+const TEST_FILLS = [FillType.SOLID, FillType.GRID, FillType.CHECKERBOARD];
+
+const STATUS_STYLES: Record<RemoteStatus, string> = {
+  open: 'bg-sky-400',
+  connecting: 'bg-amber-400 animate-pulse',
+  closed: 'bg-red-500',
+};
+
+const RemoteView: React.FC = () => {
+  const [relayUrl, setRelayUrl] = useState(() => new URLSearchParams(window.location.search).get('relay') || relayUrlForHost());
+  const [urlText, setUrlText] = useState(relayUrl);
+  const [status, setStatus] = useState<RemoteStatus>('connecting');
+  const [layout, setLayout] = useState<LayoutSurface[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [vertex, setVertex] = useState(-1);
+  const [coarse, setCoarse] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const connection = useRef<ReturnType<typeof connectRemote> | null>(null);
+
+  useEffect(() => {
+    document.title = 'LumeMap - Remote';
+    const remote = connectRemote(relayUrl, (message) => {
+      if (message.address === '/layout') {
+        const surfaces = parseLayout(message);
+        if (surfaces) setLayout(surfaces);
+      } else if (message.address === '/error') {
+        setError((message.args ?? []).map(String).join(' · '));
+      }
+    }, (next) => {
+      setStatus(next);
+      // Ask for the layout on every (re)connection; the editor pushes changes after that
+      if (next === 'open') connection.current?.send({ address: '/layout' });
+    }, false);
+    connection.current = remote;
+    return () => { remote.close(); connection.current = null; };
+  }, [relayUrl]);
+
+  useEffect(() => {
+    if (!error) return;
+    const timer = setTimeout(() => setError(null), 3000);
+    return () => clearTimeout(timer);
+  }, [error]);
+
+  const selected = layout.find(s => s.id === selectedId);
+
+  // Surfaces are addressed by id so duplicate names stay unambiguous
+  const send = (surfaceId: string, property: string, ...args: RemoteArg[]) =>
+    connection.current?.send({ address: `/surface/${encodeURIComponent(surfaceId)}/${property}`, args });
+
+  const select = (id: string) => {
+    setSelectedId(id);
+    setVertex(-1);
+  };
+
+  const nudge = (dx: number, dy: number) => {
+    if (!selected) return;
+    const step = coarse ? NUDGE_COARSE : NUDGE_FINE;
+    send(selected.id, 'nudge', selected.isEllipse ? -1 : vertex, dx * step, dy * step);
+  };
+
+  const chip = (active: boolean) =>
+    `py-3 rounded-xl border text-[9px] font-black uppercase tracking-widest transition-all ${active ? 'bg-sky-600 border-sky-500 text-white' : 'bg-zinc-900 border-white/10 text-zinc-400 active:bg-white/10'}`;
+
+  return (
+    <div className="min-h-screen bg-black text-white p-4 flex flex-col gap-4 select-none">
+      <div className="flex items-center gap-3">
+        <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${STATUS_STYLES[status]}`} />
+        <input
+          type="text"
+          value={urlText}
+          onChange={(e) => setUrlText(e.target.value)}
+          onBlur={() => urlText.trim() && setRelayUrl(urlText.trim())}
+          onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+          className="flex-1 min-w-0 bg-zinc-900 border border-white/10 rounded-xl px-3 py-2 text-xs font-mono text-zinc-300 focus:outline-none focus:ring-2 focus:ring-sky-500"
+        />
+      </div>
+
+      {error && (
+        <div className="px-4 py-2 rounded-xl bg-red-500/20 border border-red-500/40 text-[10px] font-bold text-red-300">{error}</div>
+      )}
+
+      {/* Layout thumbnail: tap a surface to select it, then one of its corners */}
+      <svg viewBox={`0 0 ${THUMB_W} ${THUMB_H}`} className="w-full aspect-video bg-zinc-950 rounded-2xl border border-white/10">
+        {layout.map(surface => (
+          <polygon
+            key={surface.id}
+            points={surface.points.map(p => `${p.x * THUMB_W},${p.y * THUMB_H}`).join(' ')}
+            fill={surface.color}
+            fillOpacity={surface.visible ? 0.25 + surface.opacity * 0.5 : 0.05}
+            stroke={surface.id === selectedId ? '#38bdf8' : '#ffffff33'}
+            strokeWidth={surface.id === selectedId ? 1 : 0.4}
+            strokeDasharray={surface.visible ? undefined : '2 2'}
+            onClick={() => select(surface.id)}
+          />
+        ))}
+        {selected && !selected.isEllipse && selected.points.map((p, i) => (
+          <g key={i} onClick={() => setVertex(vertex === i ? -1 : i)}>
+            <circle cx={p.x * THUMB_W} cy={p.y * THUMB_H} r={7} fill="transparent" />
+            <circle cx={p.x * THUMB_W} cy={p.y * THUMB_H} r={vertex === i ? 3 : 2} fill={vertex === i ? '#38bdf8' : '#ffffff'} />
+          </g>
+        ))}
+      </svg>
+
+      {/* Nudge pad */}
+      <div className="flex items-center gap-4">
+        <div className="grid grid-cols-3 gap-2 w-48 shrink-0">
+          <div />
+          <button onClick={() => nudge(0, -1)} disabled={!selected} className="h-14 rounded-xl bg-zinc-900 border border-white/10 flex items-center justify-center active:bg-sky-600 disabled:opacity-30"><ChevronUp className="w-6 h-6" /></button>
+          <div />
+          <button onClick={() => nudge(-1, 0)} disabled={!selected} className="h-14 rounded-xl bg-zinc-900 border border-white/10 flex items-center justify-center active:bg-sky-600 disabled:opacity-30"><ChevronLeft className="w-6 h-6" /></button>
+          <button onClick={() => setCoarse(!coarse)} className="h-14 rounded-xl bg-zinc-900 border border-white/10 text-[9px] font-black uppercase tracking-widest">{coarse ? 'Coarse' : 'Fine'}</button>
+          <button onClick={() => nudge(1, 0)} disabled={!selected} className="h-14 rounded-xl bg-zinc-900 border border-white/10 flex items-center justify-center active:bg-sky-600 disabled:opacity-30"><ChevronRight className="w-6 h-6" /></button>
+          <div />
+          <button onClick={() => nudge(0, 1)} disabled={!selected} className="h-14 rounded-xl bg-zinc-900 border border-white/10 flex items-center justify-center active:bg-sky-600 disabled:opacity-30"><ChevronDown className="w-6 h-6" /></button>
+          <div />
+        </div>
+        <div className="flex flex-col gap-1 min-w-0">
+          <div className="text-[10px] text-zinc-500 font-black uppercase tracking-widest">Nudging</div>
+          <div className="font-bold truncate">{selected?.name ?? 'Tap a surface'}</div>
+          {selected && (
+            <div className="text-[10px] text-sky-400 font-black uppercase tracking-widest flex items-center gap-1">
+              {vertex === -1 || selected.isEllipse ? <><Move className="w-3 h-3" /> Whole surface</> : `Corner ${vertex + 1}`}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {selected && (
+        <>
+          <div className="grid grid-cols-4 gap-2">
+            {[...TEST_FILLS, ...(selected.mediaFill ? [selected.mediaFill] : [])].map(fill => (
+              <button key={fill} onClick={() => send(selected.id, 'fillType', fill)} className={chip(selected.fillType === fill)}>{fill}</button>
+            ))}
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {Object.values(EffectType).map(effect => (
+              <button key={effect} onClick={() => send(selected.id, 'effect', effect)} className={chip(selected.effect === effect)}>{effect.replace('audio-', 'au ')}</button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {/* Surfaces */}
+      <div className="flex flex-col gap-2">
+        {layout.map(surface => (
+          <div key={surface.id} className={`flex items-center gap-3 p-3 rounded-2xl border ${surface.id === selectedId ? 'bg-sky-500/10 border-sky-500/50' : 'bg-zinc-900 border-white/5'}`}>
+            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: surface.color }} />
+            <button onClick={() => select(surface.id)} className="flex-1 text-left text-sm font-bold truncate">{surface.name}</button>
+            <button onClick={() => send(surface.id, 'visible', !surface.visible)} className={`p-3 rounded-xl ${surface.visible ? 'text-white' : 'text-zinc-600'}`}>
+              {surface.visible ? <Eye className="w-5 h-5" /> : <EyeOff className="w-5 h-5" />}
+            </button>
+          </div>
+        ))}
+        {layout.length === 0 && (
+          <div className="text-center py-8 text-[10px] font-black uppercase tracking-[0.3em] text-zinc-600">
+            {status === 'open' ? 'Waiting for editor...' : 'Connecting to relay...'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RemoteView;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Magnet, Ruler } from 'lucide-react';
+import { SnapSettings } from '../utils/snapping.ts';
+
+interface SnapControlProps {
+  snap: SnapSettings;
+  onChange: (snap: SnapSettings) => void;
+  rulers: boolean;
+  onRulersChange: (rulers: boolean) => void;
+}
+
+const TARGETS: { key: 'vertices' | 'edges' | 'guides' | 'grid'; label: string }[] = [
+  { key: 'vertices', label: 'Vertices' },
+  { key: 'edges', label: 'Edges' },
+  { key: 'guides', label: 'Guides' },
+  { key: 'grid', label: 'Grid' },
+];
+
+/** Top-bar magnet with a drop-down of snap targets, grid size and ruler visibility. */
+const SnapControl: React.FC<SnapControlProps> = ({ snap, onChange, rulers, onRulersChange }) => {
+  const [open, setOpen] = useState(false);
+  const active = TARGETS.some(t => snap[t.key]);
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(!open)} title="Snapping & Guides" className={`p-3 rounded-xl transition-all ${open ? 'bg-white/10' : 'hover:bg-white/10'} ${active ? 'text-pink-400' : ''}`}>
+        <Magnet className="w-5 h-5"/>
+      </button>
+      {open && (
+        <div className="absolute top-full left-0 mt-4 w-56 p-4 bg-zinc-900/95 backdrop-blur border border-white/10 rounded-2xl shadow-2xl flex flex-col gap-3 animate-in fade-in duration-200">
+          <label className="text-[10px] text-slate-500 block uppercase font-black tracking-[0.2em]">Snap To</label>
+          <div className="grid grid-cols-2 gap-2">
+            {TARGETS.map(({ key, label }) => (
+              <button
+                key={key}
+                onClick={() => onChange({ ...snap, [key]: !snap[key] })}
+                className={`py-2 rounded-lg border text-[9px] font-black uppercase tracking-widest transition-all ${snap[key] ? 'bg-pink-500 text-black border-pink-400' : 'bg-transparent text-slate-500 border-white/10 hover:border-white/30'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {snap.grid && (
+            <div>
+              <div className="flex justify-between text-[9px] text-slate-500 uppercase font-black tracking-widest mb-1">
+                <span>Grid</span>
+                <span className="text-pink-400">{snap.gridDivisions} × {snap.gridDivisions}</span>
+              </div>
+              <input
+                type="range" min="4" max="64" step="1"
+                value={snap.gridDivisions}
+                onChange={(e) => onChange({ ...snap, gridDivisions: parseInt(e.target.value) })}
+                className="w-full accent-pink-500"
+              />
+            </div>
+          )}
+          <button
+            onClick={() => onRulersChange(!rulers)}
+            className={`flex items-center justify-center gap-2 py-2 rounded-lg border text-[9px] font-black uppercase tracking-widest transition-all ${rulers ? 'border-cyan-500/50 text-cyan-300' : 'border-white/10 text-slate-500 hover:border-white/30'}`}
+          >
+            <Ruler className="w-3.5 h-3.5" /> {rulers ? 'Hide Rulers' : 'Show Rulers'}
+          </button>
+          <p className="text-[9px] text-slate-600 leading-relaxed font-medium">
+            Drag from a ruler to add a guide, back onto it to remove one. Hold Alt while dragging to place freely.
+            Arrow keys nudge the picked vertices or the selected surfaces: Shift for coarse steps, Alt for fine.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SnapControl;
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCcw } from 'lucide-react';
+import { TempoClock } from '../types.ts';
+import { beatPhase, divisionLength, registerTap, clampBpm, MIN_BPM, MAX_BPM } from '../utils/tempo.ts';
+
+interface TempoControlProps {
+  tempo: TempoClock;
+  onChange: (tempo: TempoClock) => void;
+}
+
+/** Compact BPM readout with tap tempo and a downbeat resync, for the top bar. */
+const TempoControl: React.FC<TempoControlProps> = ({ tempo, onChange }) => {
+  const [taps, setTaps] = useState<number[]>([]);
+  const [bpmText, setBpmText] = useState(String(tempo.bpm));
+  const [beat, setBeat] = useState({ onBeat: false, downbeat: false });
+
+  useEffect(() => { setBpmText(String(tempo.bpm)); }, [tempo.bpm]);
+
+  // Beat light: lit for the first fifth of each beat, brighter on the downbeat
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const barPhase = beatPhase(tempo, 1);
+      const beatInBar = barPhase * tempo.beatsPerBar;
+      setBeat({ onBeat: beatInBar % 1 < 0.2, downbeat: beatInBar < 0.2 });
+    }, 30);
+    return () => clearInterval(timer);
+  }, [tempo]);
+
+  const tap = () => {
+    const now = Date.now();
+    const result = registerTap(taps, now);
+    setTaps(result.taps);
+    // The latest tap becomes the downbeat so effects lock to where the user is tapping
+    if (result.bpm) onChange({ ...tempo, bpm: result.bpm, anchor: now });
+  };
+
+  const commitBpm = () => {
+    const value = parseFloat(bpmText);
+    if (!Number.isFinite(value)) { setBpmText(String(tempo.bpm)); return; }
+    // Re-anchor so the bar carries on from where it is now instead of jumping
+    const now = Date.now();
+    const next = { ...tempo, bpm: clampBpm(value) };
+    onChange({ ...next, anchor: now - beatPhase(tempo, 1, now) * divisionLength(next, 1) });
+  };
+
+  return (
+    <div className="flex items-center gap-1 p-2 bg-zinc-900/90 backdrop-blur rounded-2xl border border-white/10">
+      <div className={`w-2.5 h-2.5 mx-2 rounded-full transition-colors ${beat.downbeat ? 'bg-rose-500' : beat.onBeat ? 'bg-white' : 'bg-zinc-700'}`} />
+      <input
+        type="number" min={MIN_BPM} max={MAX_BPM} step="0.1"
+        value={bpmText}
+        onChange={(e) => setBpmText(e.target.value)}
+        onBlur={commitBpm}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        className="w-16 bg-transparent text-sm font-black tabular-nums text-white text-right focus:outline-none"
+        title="Beats per minute"
+      />
+      <span className="text-[9px] font-black uppercase tracking-widest text-zinc-500 mr-1">BPM</span>
+      <button onClick={tap} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-white/10 active:bg-white/20 transition-all" title="Tap tempo">
+        Tap
+      </button>
+      <button onClick={() => onChange({ ...tempo, anchor: Date.now() })} className="p-2 rounded-xl hover:bg-white/10 transition-all" title="Resync: the next beat starts now as a downbeat">
+        <RefreshCcw className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default TempoControl;
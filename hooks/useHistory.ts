@@ -0,0 +1,95 @@
+import { useState, useRef, useCallback } from 'react';
+
+/**
+ * LumeMap Undo History
+ * Every edit is recorded as a command holding the state before and after it.
+ * Commands sharing a coalesce key (e.g. one continuous vertex drag) collapse
+ * into a single entry until the group is sealed.
+ */
+
+const MAX_HISTORY = 100;
+
+interface HistoryEntry<T> {
+  label: string;
+  before: T;
+  after: T;
+  coalesceKey?: string;
+}
+
+export const useHistory = <T,>(initial: T) => {
+  const [present, setPresent] = useState<T>(initial);
+  const presentRef = useRef<T>(initial);
+  const past = useRef<HistoryEntry<T>[]>([]);
+  const future = useRef<HistoryEntry<T>[]>([]);
+  const sealed = useRef(true);
+  const [, setRevision] = useState(0);
+
+  const sync = (value: T) => {
+    presentRef.current = value;
+    setPresent(value);
+    setRevision(r => r + 1);
+  };
+
+  const commit = useCallback((label: string, update: (prev: T) => T, coalesceKey?: string) => {
+    const before = presentRef.current;
+    const after = update(before);
+    if (after === before) return;
+
+    const top = past.current[past.current.length - 1];
+    if (coalesceKey && top && !sealed.current && top.coalesceKey === coalesceKey) {
+      top.after = after;
+    } else {
+      past.current.push({ label, before, after, coalesceKey });
+      if (past.current.length > MAX_HISTORY) past.current.shift();
+    }
+    sealed.current = !coalesceKey;
+    future.current = [];
+    sync(after);
+  }, []);
+
+  // Closes the open coalesce group so the next edit starts a new entry
+  const seal = useCallback(() => { sealed.current = true; }, []);
+
+  // Seals only when the open group is the given one, e.g. a control stream that has gone quiet
+  const sealGroup = useCallback((coalesceKey: string) => {
+    if (past.current[past.current.length - 1]?.coalesceKey === coalesceKey) sealed.current = true;
+  }, []);
+
+  const undo = useCallback(() => {
+    const entry = past.current.pop();
+    if (!entry) return;
+    future.current.push(entry);
+    sealed.current = true;
+    sync(entry.before);
+  }, []);
+
+  const redo = useCallback(() => {
+    const entry = future.current.pop();
+    if (!entry) return;
+    past.current.push(entry);
+    sealed.current = true;
+    sync(entry.after);
+  }, []);
+
+  // Replaces the state without recording it, e.g. when loading a project
+  const reset = useCallback((value: T) => {
+    past.current = [];
+    future.current = [];
+    sealed.current = true;
+    sync(value);
+  }, []);
+
+  return {
+    present,
+    commit,
+    seal,
+    sealGroup,
+    undo,
+    redo,
+    reset,
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+    undoLabel: past.current[past.current.length - 1]?.label,
+    redoLabel: future.current[future.current.length - 1]?.label,
+  };
+};
@@ -7,6 +7,8 @@ import {
   Check, Clock, Download, ChevronRight, Menu
 } from 'lucide-react';
 import { GoogleGenAI, Type } from "@google/genai";
+import { saveAsset, getAssetUrl, rehydrateShapes, stripTransientSources, garbageCollectAssets } from './services/assetStore.ts';
+import { persistedShapeLists } from './services/projectStore.ts';
 
 // --- TYPES (Version 1 Full) ---
 type Point = { x: number; y: number };
@@ -23,6 +25,8 @@ interface ShapeStyle {
   mappingMode: MappingMode;
   videoSrc?: string;
   imageSrc?: string;
+  videoAssetId?: string;
+  imageAssetId?: string;
 }
 
 interface Shape {
@@ -95,18 +99,34 @@ const App = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [dragPoint, setDragPoint] = useState<{ shapeId: string; index: number } | null>(null);
 
-  // Persistence
+  // Persistence (media blobs live in the asset store, only their IDs are saved here)
+  const loadedRef = useRef(false);
   useEffect(() => {
     const saved = localStorage.getItem('lumemap_v1_full_data');
-    if (saved) {
-      const parsed = JSON.parse(saved);
-      setShapes(parsed.shapes || []);
-      setSnapshots(parsed.snapshots || []);
-    }
+    const parsed = saved ? JSON.parse(saved) : {};
+    const savedShapes: Shape[] = parsed.shapes || [];
+    const savedSnapshots: ProjectSnapshot[] = parsed.snapshots || [];
+    Promise.all([
+      rehydrateShapes(savedShapes),
+      Promise.all(savedSnapshots.map(async s => ({ ...s, shapes: await rehydrateShapes(s.shapes) }))),
+    ]).catch(err => {
+      console.error("Asset restore error:", err);
+      return [savedShapes, savedSnapshots] as const;
+    }).then(([restoredShapes, restoredSnapshots]) => {
+      loadedRef.current = true;
+      setShapes(restoredShapes);
+      setSnapshots(restoredSnapshots);
+      // Assets are shared with the project workspace, so collect against everything persisted
+      return garbageCollectAssets(persistedShapeLists());
+    }).catch(err => console.error("Asset cleanup error:", err));
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('lumemap_v1_full_data', JSON.stringify({ shapes, snapshots }));
+    if (!loadedRef.current) return;
+    localStorage.setItem('lumemap_v1_full_data', JSON.stringify({
+      shapes: stripTransientSources(shapes),
+      snapshots: snapshots.map(s => ({ ...s, shapes: stripTransientSources(s.shapes) }))
+    }));
   }, [shapes, snapshots]);
 
   // Camera handling
@@ -200,25 +220,33 @@ const App = () => {
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !selectedId) return;
-    const url = URL.createObjectURL(file);
-    setShapes(prev => prev.map(s => {
-      if (s.id === selectedId) {
-        const isVideo = file.type.startsWith('video/');
-        return {
-          ...s,
-          style: {
-            ...s.style,
-            fillType: isVideo ? FillType.VIDEO : FillType.IMAGE,
-            videoSrc: isVideo ? url : s.style.videoSrc,
-            imageSrc: isVideo ? s.style.imageSrc : url
-          }
-        };
-      }
-      return s;
-    }));
+    try {
+      const assetId = await saveAsset(file);
+      const url = await getAssetUrl(assetId);
+      setShapes(prev => prev.map(s => {
+        if (s.id === selectedId) {
+          const isVideo = file.type.startsWith('video/');
+          return {
+            ...s,
+            style: {
+              ...s.style,
+              fillType: isVideo ? FillType.VIDEO : FillType.IMAGE,
+              videoSrc: isVideo ? url : s.style.videoSrc,
+              imageSrc: isVideo ? s.style.imageSrc : url,
+              videoAssetId: isVideo ? assetId : s.style.videoAssetId,
+              imageAssetId: isVideo ? s.style.imageAssetId : assetId
+            }
+          };
+        }
+        return s;
+      }));
+    } catch (err: any) {
+      console.error("Asset store error:", err);
+      alert("Upload Error: " + err.message);
+    }
   };
 
   // Rendering logic
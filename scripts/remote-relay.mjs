@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+/**
+ * LumeMap Remote Relay
+ * A dependency-free local hub between the LumeMap editor and show control
+ * tools. WebSocket clients exchange JSON messages ({ address, args }); OSC
+ * over UDP (e.g. from QLab) is translated to the same JSON. Messages from
+ * tools go to the editor; the editor's replies go back to every tool.
+ *
+ *   node scripts/remote-relay.mjs [--ws-port 9000] [--osc-port 9001]
+ *
+ * See docs/REMOTE_PROTOCOL.md for the address scheme.
+ */
+
+import http from 'node:http';
+import dgram from 'node:dgram';
+import crypto from 'node:crypto';
+
+const option = (name, fallback) => {
+  const index = process.argv.indexOf(name);
+  return index > -1 ? Number(process.argv[index + 1]) : fallback;
+};
+
+const WS_PORT = option('--ws-port', 9000);
+const OSC_PORT = option('--osc-port', 9001);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// UDP senders keep receiving replies for this long after their last message
+const OSC_PEER_TTL_MS = 5 * 60 * 1000;
+
+const clients = new Set(); // { socket, buffer, isEditor }
+const oscPeers = new Map(); // "host:port" -> last seen
+
+const log = (...args) => console.log(new Date().toISOString().slice(11, 19), ...args);
+
+// --- WEBSOCKET ---
+
+const encodeFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header = length < 126 ? Buffer.from([0x80 | opcode, length])
+    : length < 65536 ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+    : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(length)); return b; })()]);
+  return Buffer.concat([header, payload]);
+};
+
+// Pulls complete frames off the client's buffer; returns false once the client closed
+const readFrames = (client, onText) => {
+  while (client.buffer.length >= 2) {
+    const buffer = client.buffer;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) { if (buffer.length < 4) return true; length = buffer.readUInt16BE(2); offset = 4; }
+    else if (length === 127) { if (buffer.length < 10) return true; length = Number(buffer.readBigUInt64BE(2)); offset = 10; }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) return true;
+
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    client.buffer = buffer.subarray(offset + length);
+
+    if (opcode === 0x8) { client.socket.end(encodeFrame('', 0x8)); return false; }
+    if (opcode === 0x9) client.socket.write(encodeFrame(payload.toString(), 0xa));
+    else if (opcode === 0x1) onText(payload.toString('utf8'));
+  }
+  return true;
+};
+
+const sendJson = (client, message) => {
+  if (!client.socket.destroyed) client.socket.write(encodeFrame(JSON.stringify(message)));
+};
+
+const server = http.createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end(`LumeMap remote relay: ${clients.size} WebSocket client(s), ${oscPeers.size} OSC peer(s)\n`);
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key) { socket.destroy(); return; }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(['HTTP/1.1 101 Switching Protocols', 'Upgrade: websocket', 'Connection: Upgrade', `Sec-WebSocket-Accept: ${accept}`, '', ''].join('\r\n'));
+
+  const client = { socket, buffer: Buffer.alloc(0), isEditor: false };
+  clients.add(client);
+  log(`WebSocket client connected (${clients.size})`);
+
+  socket.on('data', (chunk) => {
+    client.buffer = Buffer.concat([client.buffer, chunk]);
+    readFrames(client, (text) => {
+      let message;
+      try { message = JSON.parse(text); } catch { return; }
+      if (typeof message?.address !== 'string') return;
+      if (message.address === '/lumemap/hello') {
+        client.isEditor = true;
+        log(`Editor connected: ${message.args?.[0] ?? ''}`);
+        return;
+      }
+      route(message, client.isEditor ? 'editor' : 'tool');
+    });
+  });
+  const drop = () => {
+    if (!clients.delete(client)) return;
+    log(`${client.isEditor ? 'Editor' : 'WebSocket client'} disconnected (${clients.size})`);
+  };
+  socket.on('close', drop);
+  socket.on('error', drop);
+});
+
+// Tool messages reach the editor(s); editor messages reach every tool
+const route = (message, from) => {
+  for (const client of clients) {
+    if (from === 'tool' ? client.isEditor : !client.isEditor) sendJson(client, message);
+  }
+  // Layout pushes feed the phone remote's thumbnail; they are too chatty (and too large) for UDP
+  if (from === 'editor' && message.address !== '/layout') {
+    const now = Date.now();
+    for (const [peer, seen] of oscPeers) {
+      if (now - seen > OSC_PEER_TTL_MS) { oscPeers.delete(peer); continue; }
+      const [host, port] = peer.split(':');
+      osc.send(encodeOsc(message), Number(port), host);
+    }
+  }
+};
+
+// --- OSC ---
+
+// Null when the string runs off the end of the packet without its terminator
+const readOscString = (buffer, offset) => {
+  const end = buffer.indexOf(0, offset);
+  if (end === -1) return null;
+  const value = buffer.toString('utf8', offset, end);
+  return { value, next: offset + Math.ceil((end - offset + 1) / 4) * 4 };
+};
+
+// Any host on the network can send to the OSC port, so truncated or malformed packets decode to null
+const decodeOsc = (buffer) => {
+  const address = readOscString(buffer, 0);
+  if (!address || !address.value.startsWith('/') || address.value === '#bundle') return null;
+  const tags = address.next < buffer.length ? readOscString(buffer, address.next) : { value: ',', next: address.next };
+  if (!tags) return null;
+  const args = [];
+  let offset = tags.next;
+  const fits = (size) => offset + size <= buffer.length;
+  for (const tag of tags.value.slice(1)) {
+    if (tag === 'f') { if (!fits(4)) return null; args.push(buffer.readFloatBE(offset)); offset += 4; }
+    else if (tag === 'i') { if (!fits(4)) return null; args.push(buffer.readInt32BE(offset)); offset += 4; }
+    else if (tag === 'd') { if (!fits(8)) return null; args.push(buffer.readDoubleBE(offset)); offset += 8; }
+    else if (tag === 's') { const s = offset < buffer.length && readOscString(buffer, offset); if (!s) return null; args.push(s.value); offset = s.next; }
+    else if (tag === 'T') args.push(true);
+    else if (tag === 'F') args.push(false);
+    else return null; // unsupported type: drop the message rather than misread it
+  }
+  return { address: address.value, args };
+};
+
+const oscString = (value) => {
+  const bytes = Buffer.from(value + '\0');
+  return Buffer.concat([bytes, Buffer.alloc((4 - (bytes.length % 4)) % 4)]);
+};
+
+const encodeOsc = ({ address, args = [] }) => {
+  let tags = ',';
+  const data = args.map((arg) => {
+    if (typeof arg === 'boolean') { tags += arg ? 'T' : 'F'; return Buffer.alloc(0); }
+    if (typeof arg === 'number') { tags += 'f'; const b = Buffer.alloc(4); b.writeFloatBE(arg); return b; }
+    tags += 's';
+    return oscString(String(arg));
+  });
+  return Buffer.concat([oscString(address), oscString(tags), ...data]);
+};
+
+const osc = dgram.createSocket('udp4');
+
+osc.on('message', (buffer, rinfo) => {
+  const message = decodeOsc(buffer);
+  if (!message) return;
+  oscPeers.set(`${rinfo.address}:${rinfo.port}`, Date.now());
+  route(message, 'tool');
+});
+
+osc.on('error', (err) => log(`OSC socket error: ${err.message}`));
+
+server.listen(WS_PORT, () => log(`WebSocket relay on ws://localhost:${WS_PORT}`));
+osc.bind(OSC_PORT, () => log(`OSC (UDP) input on port ${OSC_PORT}`));
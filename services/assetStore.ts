@@ -0,0 +1,146 @@
+import { ShapeStyle } from '../types.ts';
+
+/**
+ * LumeMap Asset Store
+ * Uploaded media lives in IndexedDB under stable asset IDs. Shapes persist
+ * only those IDs; the transient object URLs used for playback are recreated
+ * from the stored blobs whenever a project is loaded.
+ */
+
+const DB_NAME = 'lumemap_assets';
+const DB_VERSION = 1;
+const STORE = 'assets';
+// Another tab, or a save still waiting on its debounce, may reference a fresh asset
+// that no persisted shape list mentions yet
+const GC_GRACE_MS = 24 * 60 * 60 * 1000;
+
+export interface MediaAsset {
+  id: string;
+  name: string;
+  type: string;
+  blob: Blob;
+  createdAt: number;
+  storedAt?: number; // when this browser wrote it; imports keep their original createdAt
+}
+
+type MediaStyle = Pick<ShapeStyle, 'videoSrc' | 'imageSrc' | 'videoAssetId' | 'imageAssetId'>;
+type MediaShape = { style: MediaStyle };
+
+const objectUrls = new Map<string, string>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T,>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Writes an asset under its existing ID, e.g. when importing a project bundle
+export const storeAsset = async (asset: MediaAsset) => {
+  await runRequest('readwrite', store => store.put({ ...asset, storedAt: Date.now() }));
+  return asset.id;
+};
+
+export const saveAsset = (file: Blob, name = (file as File).name || 'asset') => storeAsset({
+  id: `asset_${Date.now().toString(36)}_${Math.random().toString(36).substr(2, 6)}`,
+  name,
+  type: file.type,
+  blob: file,
+  createdAt: Date.now(),
+});
+
+export const getAsset = (id: string) => runRequest<MediaAsset | undefined>('readonly', store => store.get(id));
+
+export const listAssetIds = async () => (await runRequest('readonly', store => store.getAllKeys())) as string[];
+
+const listAssets = () => runRequest<MediaAsset[]>('readonly', store => store.getAll());
+
+export const deleteAsset = async (id: string) => {
+  await runRequest('readwrite', store => store.delete(id));
+  const url = objectUrls.get(id);
+  if (url) { URL.revokeObjectURL(url); objectUrls.delete(id); }
+};
+
+// One object URL per asset for the lifetime of the page
+export const getAssetUrl = async (id: string) => {
+  const cached = objectUrls.get(id);
+  if (cached) return cached;
+  const asset = await getAsset(id);
+  if (!asset) return undefined;
+  const url = URL.createObjectURL(asset.blob);
+  objectUrls.set(id, url);
+  return url;
+};
+
+/** Fills videoSrc / imageSrc from the stored blobs of every referenced asset. */
+export const rehydrateShapes = async <S extends MediaShape>(shapes: S[]): Promise<S[]> =>
+  Promise.all(shapes.map(async shape => {
+    const { videoAssetId, imageAssetId } = shape.style;
+    if (!videoAssetId && !imageAssetId) return shape;
+    const [videoSrc, imageSrc] = await Promise.all([
+      videoAssetId ? getAssetUrl(videoAssetId) : undefined,
+      imageAssetId ? getAssetUrl(imageAssetId) : undefined,
+    ]);
+    return {
+      ...shape,
+      style: {
+        ...shape.style,
+        videoSrc: videoAssetId ? videoSrc : shape.style.videoSrc,
+        imageSrc: imageAssetId ? imageSrc : shape.style.imageSrc,
+      }
+    };
+  }));
+
+/** Drops blob: URLs before persisting; they are dead after a reload anyway. */
+export const stripTransientSources = <S extends MediaShape>(shapes: S[]): S[] =>
+  shapes.map(shape => {
+    const { videoSrc, imageSrc } = shape.style;
+    if (!videoSrc?.startsWith('blob:') && !imageSrc?.startsWith('blob:')) return shape;
+    return {
+      ...shape,
+      style: {
+        ...shape.style,
+        videoSrc: videoSrc?.startsWith('blob:') ? undefined : videoSrc,
+        imageSrc: imageSrc?.startsWith('blob:') ? undefined : imageSrc,
+      }
+    };
+  });
+
+export const collectAssetIds = (shapes: MediaShape[], ids = new Set<string>()) => {
+  shapes.forEach(({ style }) => {
+    if (style.videoAssetId) ids.add(style.videoAssetId);
+    if (style.imageAssetId) ids.add(style.imageAssetId);
+  });
+  return ids;
+};
+
+/** Deletes every stored asset older than the grace period that none of the given shape lists reference. */
+export const garbageCollectAssets = async (shapeLists: MediaShape[][]) => {
+  const referenced = new Set<string>();
+  shapeLists.forEach(list => collectAssetIds(list, referenced));
+  const cutoff = Date.now() - GC_GRACE_MS;
+  const stale = (await listAssets())
+    .filter(asset => !referenced.has(asset.id) && (asset.storedAt ?? asset.createdAt) < cutoff)
+    .map(asset => asset.id);
+  await Promise.all(stale.map(deleteAsset));
+  return stale.length;
+};
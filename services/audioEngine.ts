@@ -0,0 +1,180 @@
+import { AudioBand } from '../types.ts';
+
+/**
+ * LumeMap Audio Engine
+ * One Web Audio graph per window analyses either the microphone or the
+ * soundtrack of a surface's video and exposes level, band energies and a
+ * beat pulse for audio-reactive effects. Video audio only reaches the
+ * speakers when the window monitors it and the surface is not muted.
+ */
+
+export type AudioSourceConfig =
+  | { kind: 'microphone' }
+  | { kind: 'shape'; shapeId: string; muted: boolean };
+
+export type AudioSignals = Record<AudioBand, number>;
+
+export const SILENCE: AudioSignals = { level: 0, bass: 0, mid: 0, treble: 0, beat: 0 };
+
+const FFT_SIZE = 1024;
+const BANDS: Record<'bass' | 'mid' | 'treble', [number, number]> = {
+  bass: [20, 250],
+  mid: [250, 2000],
+  treble: [2000, 16000],
+};
+// A beat is bass energy this far above its running average, at most every BEAT_REFRACTORY ms
+const BEAT_THRESHOLD = 1.35;
+const BEAT_FLOOR = 0.15;
+const BEAT_REFRACTORY = 250;
+const BEAT_DECAY = 120;
+
+let context: AudioContext | null = null;
+let analyser: AnalyserNode | null = null;
+let output: GainNode | null = null;
+let current: { config: AudioSourceConfig; node: AudioNode; stream?: MediaStream; element?: HTMLMediaElement } | null = null;
+let requested: AudioSourceConfig | null = null;
+let monitor = true;
+
+const mediaElements = new Map<string, HTMLMediaElement>();
+// createMediaElementSource may only be called once per element, and reroutes it for good:
+// from then on its own gain, not its muted flag, decides whether it is heard
+const elementSources = new WeakMap<HTMLMediaElement, { source: MediaElementAudioSourceNode; gain: GainNode }>();
+
+const frequencyData = new Uint8Array(FFT_SIZE / 2);
+const timeData = new Uint8Array(FFT_SIZE);
+let bassAverage = 0;
+let lastBeat = -Infinity;
+let cached: { at: number; signals: AudioSignals } | null = null;
+
+const ensureGraph = () => {
+  if (!context) {
+    context = new AudioContext();
+    analyser = context.createAnalyser();
+    analyser.fftSize = FFT_SIZE;
+    analyser.smoothingTimeConstant = 0.6;
+    output = context.createGain();
+    output.connect(context.destination);
+  }
+  return { context, analyser: analyser!, output: output! };
+};
+
+// Browsers start audio suspended until a user gesture
+export const resumeAudio = () => { if (context?.state === 'suspended') context.resume(); };
+
+/** Whether this window plays unmuted video audio through its speakers (the projector only analyses). */
+export const setAudioMonitor = (enabled: boolean) => { monitor = enabled; };
+
+export const registerMediaElement = (shapeId: string, element: HTMLMediaElement) => {
+  mediaElements.set(shapeId, element);
+  // The requested source's element arrived late or was replaced: wire it up now
+  if (requested?.kind === 'shape' && requested.shapeId === shapeId && current?.element !== element) {
+    setAudioSource(requested).catch(err => console.error("Audio source error:", err));
+  }
+};
+
+const audibleGain = (muted: boolean) => !muted && monitor ? 1 : 0;
+
+/** Mutes or unmutes a video's soundtrack, whether or not it has been routed into the graph. */
+export const setMediaMuted = (element: HTMLMediaElement, muted: boolean) => {
+  const captured = elementSources.get(element);
+  if (captured) captured.gain.gain.value = audibleGain(muted);
+  else element.muted = muted;
+};
+
+/** Forgets a surface's video: it stops feeding the analyser and its gain leaves the graph. */
+export const unregisterMediaElement = (shapeId: string) => {
+  const element = mediaElements.get(shapeId);
+  mediaElements.delete(shapeId);
+  if (!element) return;
+  if (current?.element === element) disconnectCurrent();
+  const captured = elementSources.get(element);
+  if (!captured) return;
+  captured.source.disconnect();
+  captured.gain.disconnect();
+  elementSources.delete(element);
+};
+
+const disconnectCurrent = () => {
+  if (!current) return;
+  // A captured video keeps playing through its own gain; it only stops feeding the analyser
+  if (current.element && analyser) current.node.disconnect(analyser);
+  else current.node.disconnect();
+  current.stream?.getTracks().forEach(t => t.stop());
+  current = null;
+};
+
+const sameSource = (a: AudioSourceConfig | null | undefined, b: AudioSourceConfig | null) =>
+  !!a && !!b && a.kind === b.kind && (a.kind === 'microphone' || (b.kind === 'shape' && a.shapeId === b.shapeId));
+
+export const setAudioSource = async (config: AudioSourceConfig | null) => {
+  requested = config;
+  // Only the mute flag changed: keep the graph, just adjust what reaches the speakers
+  if (current && config && sameSource(current.config, config) && (config.kind !== 'shape' || current.element === mediaElements.get(config.shapeId))) {
+    current.config = config;
+    if (config.kind === 'shape') setMediaMuted(current.element!, config.muted);
+    return;
+  }
+
+  disconnectCurrent();
+  if (!config) return;
+  const graph = ensureGraph();
+  resumeAudio();
+
+  if (config.kind === 'microphone') {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    // The source was cleared or changed while the permission prompt was open
+    if (requested !== config) { stream.getTracks().forEach(t => t.stop()); return; }
+    const node = graph.context.createMediaStreamSource(stream);
+    node.connect(graph.analyser); // analysed only, never fed back into the room
+    current = { config, node, stream };
+    return;
+  }
+
+  const element = mediaElements.get(config.shapeId);
+  if (!element) { current = null; return; }
+  let captured = elementSources.get(element);
+  if (!captured) {
+    captured = { source: graph.context.createMediaElementSource(element), gain: graph.context.createGain() };
+    captured.source.connect(captured.gain);
+    captured.gain.connect(graph.output);
+    elementSources.set(element, captured);
+  }
+  // The element has to be unmuted for its samples to reach the graph; its gain decides audibility
+  element.muted = false;
+  captured.gain.gain.value = audibleGain(config.muted);
+  captured.source.connect(graph.analyser);
+  current = { config, node: captured.source, element };
+};
+
+const bandEnergy = (from: number, to: number, sampleRate: number) => {
+  const binWidth = sampleRate / FFT_SIZE;
+  const start = Math.max(1, Math.floor(from / binWidth));
+  const end = Math.min(frequencyData.length - 1, Math.ceil(to / binWidth));
+  let sum = 0;
+  for (let i = start; i <= end; i++) sum += frequencyData[i];
+  return end >= start ? sum / ((end - start + 1) * 255) : 0;
+};
+
+/** Current signals, analysed at most once per animation frame. */
+export const readAudioSignals = (now = performance.now()): AudioSignals => {
+  if (!current || !analyser || !context) return SILENCE;
+  if (cached && now - cached.at < 8) return cached.signals;
+
+  analyser.getByteFrequencyData(frequencyData);
+  analyser.getByteTimeDomainData(timeData);
+
+  let squares = 0;
+  for (let i = 0; i < timeData.length; i++) { const v = (timeData[i] - 128) / 128; squares += v * v; }
+  const level = Math.min(1, Math.sqrt(squares / timeData.length) * 3);
+
+  const bass = bandEnergy(...BANDS.bass, context.sampleRate);
+  const mid = bandEnergy(...BANDS.mid, context.sampleRate);
+  const treble = bandEnergy(...BANDS.treble, context.sampleRate);
+
+  if (bass > BEAT_FLOOR && bass > bassAverage * BEAT_THRESHOLD && now - lastBeat > BEAT_REFRACTORY) lastBeat = now;
+  bassAverage = bassAverage * 0.95 + bass * 0.05;
+  const beat = Math.exp(-(now - lastBeat) / BEAT_DECAY);
+
+  cached = { at: now, signals: { level, bass, mid, treble, beat } };
+  return cached.signals;
+};
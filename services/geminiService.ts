@@ -37,7 +37,7 @@ export const generateMappingAssistant = async (prompt: string) => {
       1. All coordinates (x, y) must be between 0.0 and 1.0 (representing screen percentages).
       2. Shapes should be logical (e.g., quads should have 4 points, circles should have multiple points forming a ring).
       3. Colors must be hex strings.
-      4. Effects must be one of: 'none', 'strobe', 'breathe', 'rainbow'.
+      4. Effects must be one of: 'none', 'strobe', 'breathe', 'rainbow', 'warp', 'audio-pulse', 'audio-color', 'audio-scale'.
       5. Layouts should be aesthetically pleasing and centered.`,
       responseMimeType: "application/json",
       responseSchema: {
@@ -65,7 +65,7 @@ export const generateMappingAssistant = async (prompt: string) => {
                   type: Type.OBJECT,
                   properties: {
                     color: { type: Type.STRING, description: "Hex color code" },
-                    effect: { type: Type.STRING, description: "none, strobe, breathe, or rainbow" },
+                    effect: { type: Type.STRING, description: "none, strobe, breathe, rainbow, warp, audio-pulse, audio-color, or audio-scale" },
                     effectSpeed: { type: Type.NUMBER, description: "1 to 10" }
                   },
                   required: ["color", "effect", "effectSpeed"]
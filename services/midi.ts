@@ -0,0 +1,74 @@
+import { MidiTrigger } from '../types.ts';
+
+/**
+ * LumeMap MIDI Input
+ * Listens to every connected Web MIDI input (including devices plugged in
+ * later) and turns CC and note messages into normalized events. A virtual
+ * input feeds the same listeners so mappings can be tested without hardware.
+ */
+
+export interface MidiEvent extends MidiTrigger {
+  value: number; // 0..1: CC value or note velocity, 0 on note off
+  source: string;
+}
+
+type MidiListener = (event: MidiEvent) => void;
+
+const listeners = new Set<MidiListener>();
+let access: Promise<MIDIAccess> | null = null;
+
+export const VIRTUAL_INPUT = 'Virtual Input';
+
+export const isMidiSupported = () => typeof navigator !== 'undefined' && 'requestMIDIAccess' in navigator;
+
+const emit = (event: MidiEvent) => listeners.forEach(listener => listener(event));
+
+const parseMessage = (data: Uint8Array, source: string): MidiEvent | null => {
+  if (data.length < 3) return null;
+  const type = data[0] & 0xf0;
+  const channel = (data[0] & 0x0f) + 1;
+  if (type === 0xb0) return { kind: 'cc', channel, number: data[1], value: data[2] / 127, source };
+  if (type === 0x90) return { kind: 'note', channel, number: data[1], value: data[2] / 127, source };
+  if (type === 0x80) return { kind: 'note', channel, number: data[1], value: 0, source };
+  return null;
+};
+
+const attachInput = (input: MIDIInput) => {
+  input.onmidimessage = (e: MIDIMessageEvent) => {
+    const event = e.data && parseMessage(e.data, input.name || 'MIDI');
+    if (event) emit(event);
+  };
+};
+
+/** Requests MIDI access once and starts listening; resolves to the connected input names. */
+export const startMidi = async () => {
+  if (!isMidiSupported()) throw new Error("Web MIDI is not available in this browser.");
+  if (!access) {
+    access = navigator.requestMIDIAccess().then(midi => {
+      midi.inputs.forEach(attachInput);
+      midi.onstatechange = (e: Event) => {
+        const port = (e as MIDIConnectionEvent).port;
+        if (port?.type === 'input' && port.state === 'connected') attachInput(port as MIDIInput);
+      };
+      return midi;
+    });
+    access.catch(() => { access = null; });
+  }
+  const midi = await access;
+  return [...midi.inputs.values()].map(input => input.name || 'MIDI');
+};
+
+export const subscribeMidi = (listener: MidiListener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/** Sends an event from the software-only virtual input. */
+export const emitVirtualMidi = (trigger: MidiTrigger, value: number) =>
+  emit({ ...trigger, value, source: VIRTUAL_INPUT });
+
+export const matchesTrigger = (trigger: MidiTrigger, event: MidiEvent) =>
+  trigger.kind === event.kind && trigger.channel === event.channel && trigger.number === event.number;
+
+export const describeTrigger = (trigger: MidiTrigger) =>
+  `${trigger.kind === 'cc' ? 'CC' : 'Note'} ${trigger.number} · Ch ${trigger.channel}`;
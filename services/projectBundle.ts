@@ -0,0 +1,192 @@
+import { Shape, ProjectVersion, OutputRegion, Keystone, Guide, Cue, MidiMapping } from '../types.ts';
+import { getAsset, storeAsset, collectAssetIds, rehydrateShapes, stripTransientSources, MediaAsset } from './assetStore.ts';
+
+/**
+ * LumeMap Project Bundles
+ * A .lumemap file is a plain (uncompressed) ZIP archive holding project.json
+ * plus every media asset the shapes or saved versions reference, so a show
+ * prepared on one machine opens complete on another.
+ */
+
+const BUNDLE_FORMAT = 'lumemap-bundle';
+const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = 'project.json';
+export const BUNDLE_EXTENSION = '.lumemap';
+
+export interface ProjectData {
+  name: string;
+  shapes: Shape[];
+  versions: ProjectVersion[];
+  outputs?: OutputRegion[];
+  keystone?: Keystone;
+  guides?: Guide[];
+  cues?: Cue[];
+  midiMappings?: MidiMapping[];
+}
+
+interface BundleManifest extends ProjectData {
+  format: typeof BUNDLE_FORMAT;
+  bundleVersion: number;
+  exportedAt: number;
+  assets: { id: string; name: string; type: string; createdAt: number; path: string }[];
+}
+
+// --- ZIP (store method only) ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const writeZip = (files: { path: string; data: Uint8Array }[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(({ path, data }) => {
+    const name = encoder.encode(path);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(local.buffer, name, data);
+
+    const entry = new DataView(new ArrayBuffer(46 + name.length));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    new Uint8Array(entry.buffer).set(name, 46);
+    central.push(new Uint8Array(entry.buffer));
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
+
+const readZip = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  let endOffset = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { endOffset = i; break; }
+  }
+  if (endOffset === -1) throw new Error("Not a LumeMap bundle (archive directory missing).");
+
+  const files = new Map<string, Uint8Array>();
+  const count = view.getUint16(endOffset + 10, true);
+  let ptr = view.getUint32(endOffset + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(ptr, true) !== 0x02014b50) throw new Error("Bundle archive is corrupted.");
+    const method = view.getUint16(ptr + 10, true);
+    const size = view.getUint32(ptr + 20, true);
+    const nameLength = view.getUint16(ptr + 28, true);
+    const extraLength = view.getUint16(ptr + 30, true);
+    const commentLength = view.getUint16(ptr + 32, true);
+    const localOffset = view.getUint32(ptr + 42, true);
+    const path = decoder.decode(new Uint8Array(buffer, ptr + 46, nameLength));
+    if (method !== 0) throw new Error(`Compressed bundle entries are not supported (${path}).`);
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    files.set(path, new Uint8Array(buffer, dataStart, size));
+    ptr += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+};
+
+// --- BUNDLES ---
+
+export const exportProjectBundle = async ({ name, shapes, versions, outputs, keystone, guides, cues, midiMappings }: ProjectData): Promise<Blob> => {
+  const ids = collectAssetIds(shapes);
+  versions.forEach(v => collectAssetIds(v.shapes, ids));
+
+  const assets = (await Promise.all([...ids].map(getAsset))).filter((a): a is MediaAsset => !!a);
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    name,
+    shapes: stripTransientSources(shapes),
+    versions: versions.map(v => ({ ...v, shapes: stripTransientSources(v.shapes) })),
+    outputs,
+    keystone,
+    guides,
+    cues,
+    midiMappings,
+    assets: assets.map(a => ({ id: a.id, name: a.name, type: a.type, createdAt: a.createdAt, path: `assets/${a.id}` })),
+  };
+
+  const files = [{ path: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) }];
+  for (const asset of assets) {
+    files.push({ path: `assets/${asset.id}`, data: new Uint8Array(await asset.blob.arrayBuffer()) });
+  }
+  return writeZip(files);
+};
+
+/** Restores a bundle's assets into the local store and returns its rehydrated project data. */
+export const importProjectBundle = async (file: Blob): Promise<ProjectData> => {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength));
+
+  // Legacy plain JSON exports carry geometry and styles only
+  if (bytes[0] === 0x7b /* { */) {
+    const data = JSON.parse(new TextDecoder().decode(buffer));
+    return { name: data.name || 'Imported Project', shapes: data.shapes || [], versions: data.versions || [] };
+  }
+
+  const files = readZip(buffer);
+  const manifestBytes = files.get(MANIFEST_PATH);
+  if (!manifestBytes) throw new Error("Bundle is missing its project.json manifest.");
+  const manifest: BundleManifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  if (manifest.format !== BUNDLE_FORMAT) throw new Error("File is not a LumeMap project bundle.");
+  if (manifest.bundleVersion > BUNDLE_VERSION) throw new Error("Bundle was made by a newer LumeMap version.");
+
+  for (const meta of manifest.assets) {
+    const data = files.get(meta.path);
+    if (!data) throw new Error(`Bundle is missing media asset "${meta.name}".`);
+    await storeAsset({ id: meta.id, name: meta.name, type: meta.type, createdAt: meta.createdAt, blob: new Blob([data], { type: meta.type }) });
+  }
+
+  return {
+    name: manifest.name,
+    shapes: await rehydrateShapes(manifest.shapes),
+    versions: await Promise.all(manifest.versions.map(async v => ({ ...v, shapes: await rehydrateShapes(v.shapes) }))),
+    outputs: manifest.outputs,
+    keystone: manifest.keystone,
+    guides: manifest.guides,
+    cues: manifest.cues,
+    midiMappings: manifest.midiMappings,
+  };
+};
@@ -0,0 +1,90 @@
+import { Project, ProjectVersion, Shape } from '../types.ts';
+import { rehydrateShapes, stripTransientSources } from './assetStore.ts';
+
+/**
+ * LumeMap Project Store
+ * Persists the multi-project workspace in localStorage. Media blobs stay in
+ * the asset store; projects only keep the asset IDs their shapes reference.
+ */
+
+const WORKSPACE_KEY = 'lumemap_workspace_v1';
+const LEGACY_KEY = 'lumemap_v1_full_data';
+
+export interface Workspace {
+  projects: Project[];
+  lastProjectId: string | null;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const createProject = (name: string, shapes: Shape[] = [], versions: ProjectVersion[] = []): Project => ({
+  id: newId(),
+  name,
+  shapes,
+  versions,
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+});
+
+export const duplicateProject = (project: Project): Project => ({
+  ...createProject(`${project.name} Copy`, project.shapes, project.versions.map(v => ({ ...v, id: newId() }))),
+  outputs: project.outputs,
+  keystone: project.keystone,
+  guides: project.guides,
+  cues: project.cues,
+  midiMappings: project.midiMappings,
+});
+
+const readWorkspace = (): Workspace | null => {
+  try {
+    const saved = localStorage.getItem(WORKSPACE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error("Workspace parse error:", e);
+    return null;
+  }
+};
+
+/** Loads every project with live media URLs, creating a first project on a fresh install. */
+export const loadWorkspace = async (): Promise<Workspace> => {
+  const saved = readWorkspace();
+  if (!saved || saved.projects.length === 0) {
+    const project = createProject('Untitled Show');
+    return { projects: [project], lastProjectId: project.id };
+  }
+  const projects = await Promise.all(saved.projects.map(async p => ({
+    ...p,
+    shapes: await rehydrateShapes(p.shapes),
+    versions: await Promise.all(p.versions.map(async v => ({ ...v, shapes: await rehydrateShapes(v.shapes) }))),
+  })));
+  const lastProjectId = projects.some(p => p.id === saved.lastProjectId) ? saved.lastProjectId : projects[0].id;
+  return { projects, lastProjectId };
+};
+
+export const saveWorkspace = ({ projects, lastProjectId }: Workspace) => {
+  localStorage.setItem(WORKSPACE_KEY, JSON.stringify({
+    lastProjectId,
+    projects: projects.map(p => ({
+      ...p,
+      shapes: stripTransientSources(p.shapes),
+      versions: p.versions.map(v => ({ ...v, shapes: stripTransientSources(v.shapes) })),
+    })),
+  }));
+};
+
+/** Every shape list persisted on this machine, for asset garbage collection. */
+export const persistedShapeLists = (): { style: Shape['style'] }[][] => {
+  const lists: { style: Shape['style'] }[][] = [];
+  readWorkspace()?.projects.forEach(p => {
+    lists.push(p.shapes);
+    p.versions.forEach(v => lists.push(v.shapes));
+  });
+  try {
+    const legacy = JSON.parse(localStorage.getItem(LEGACY_KEY) || '{}');
+    lists.push(legacy.shapes || []);
+    (legacy.snapshots || []).forEach((s: { shapes: Shape[] }) => lists.push(s.shapes));
+  } catch (e) {
+    console.error("Legacy data parse error:", e);
+  }
+  return lists;
+};
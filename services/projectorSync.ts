@@ -0,0 +1,51 @@
+import { Shape, OutputRegion, Keystone, Cue, Transport, TempoClock, CalibrationPattern } from '../types.ts';
+import { AudioSourceConfig } from './audioEngine.ts';
+
+/**
+ * LumeMap Projector Sync
+ * Keeps projector output windows in step with the editor over a
+ * same-origin BroadcastChannel. The editor broadcasts its whole state on
+ * every change, and an output window asks for it whenever it (re)loads,
+ * so a refresh never leaves it blank.
+ */
+
+const CHANNEL_NAME = 'lumemap_projector';
+const VIEW_PARAM = 'view';
+const PROJECTOR_VIEW = 'projector';
+const OUTPUT_PARAM = 'output';
+
+export interface ProjectorState {
+  shapes: Shape[];
+  outputs: OutputRegion[];
+  keystone: Keystone | null; // master corner pin every window applies to its finished frame
+  keystoneSetup: boolean; // outputs show the alignment grid while the editor adjusts the keystone
+  cues: Cue[];
+  transport: Transport | null;
+  audio: AudioSourceConfig | null;
+  tempo: TempoClock;
+  master: number;
+}
+
+export type ProjectorMessage =
+  | { type: 'state'; state: ProjectorState }
+  | { type: 'transport'; transport: Transport | null } // both ways: a show can be run from an output window too
+  | { type: 'calibration'; pattern: CalibrationPattern | null } // structured-light frame shown in place of the show
+  | { type: 'request-state' };
+
+export const openProjectorChannel = () => new BroadcastChannel(CHANNEL_NAME);
+
+export const isProjectorView = () =>
+  new URLSearchParams(window.location.search).get(VIEW_PARAM) === PROJECTOR_VIEW;
+
+// The output region this window renders, or null for the whole stage
+export const projectorOutputId = () => new URLSearchParams(window.location.search).get(OUTPUT_PARAM);
+
+export const openProjectorWindow = (outputId?: string) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set(VIEW_PARAM, PROJECTOR_VIEW);
+  if (outputId) url.searchParams.set(OUTPUT_PARAM, outputId);
+  else url.searchParams.delete(OUTPUT_PARAM);
+  // A fixed name per output reuses its existing window instead of stacking new ones
+  const name = outputId ? `${CHANNEL_NAME}_${outputId}` : CHANNEL_NAME;
+  return window.open(url.toString(), name, 'popup,width=1280,height=720');
+};
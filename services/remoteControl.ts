@@ -0,0 +1,303 @@
+import { Shape, ShapeStyle, EffectType, FillType, Point } from '../types.ts';
+import { translateShape, moveAttachedControls } from '../utils/geometry.ts';
+
+/**
+ * LumeMap Remote Control
+ * Connects to the local relay (scripts/remote-relay.mjs) over WebSocket and
+ * speaks an OSC-style address scheme so show control systems can query and
+ * set surfaces. A message without arguments is a query and gets a reply on
+ * the same address. The connection retries with backoff whenever the relay
+ * goes away. The phone remote (?view=remote) is a client of the same
+ * relay. See docs/REMOTE_PROTOCOL.md.
+ */
+
+export type RemoteArg = number | string | boolean;
+
+export interface RemoteMessage {
+  address: string;
+  args?: RemoteArg[];
+}
+
+export type RemoteStatus = 'connecting' | 'open' | 'closed';
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:9000';
+const SETTINGS_KEY = 'lumemap_remote_v1';
+const RETRY_MIN_MS = 1000;
+const RETRY_MAX_MS = 10000;
+const VIEW_PARAM = 'view';
+const REMOTE_VIEW = 'remote';
+const RELAY_PORT = 9000;
+
+// Style keys reachable at /surface/<name>/<key>, with the argument type each expects
+const STYLE_KEYS: Partial<Record<keyof ShapeStyle, 'number' | 'string'>> = {
+  color: 'string',
+  opacity: 'number',
+  effect: 'string',
+  fillType: 'string',
+  effectSpeed: 'number',
+  strokeColor: 'string',
+  strokeWidth: 'number',
+  strokeGlow: 'number',
+  strokeSpeed: 'number',
+  feather: 'number',
+  audioGain: 'number',
+};
+
+export const isRemoteView = () =>
+  new URLSearchParams(window.location.search).get(VIEW_PARAM) === REMOTE_VIEW;
+
+export const remoteViewUrl = () => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.searchParams.set(VIEW_PARAM, REMOTE_VIEW);
+  return url.toString();
+};
+
+// A phone reaches the relay on the same machine that serves the app
+export const relayUrlForHost = () => `ws://${window.location.hostname || 'localhost'}:${RELAY_PORT}`;
+
+export interface RemoteSettings {
+  url: string;
+  enabled: boolean;
+}
+
+export const loadRemoteSettings = (): RemoteSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) return { url: DEFAULT_RELAY_URL, enabled: false, ...JSON.parse(saved) };
+  } catch (e) {
+    console.error("Remote settings parse error:", e);
+  }
+  return { url: DEFAULT_RELAY_URL, enabled: false };
+};
+
+export const saveRemoteSettings = (settings: RemoteSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Opens a relay connection that reconnects until closed. The editor announces
+ * itself with /lumemap/hello on every (re)connection so the relay knows where
+ * to route tool messages; remote views connect as plain tools.
+ */
+export const connectRemote = (
+  url: string,
+  onMessage: (message: RemoteMessage) => void,
+  onStatus: (status: RemoteStatus) => void,
+  announce = true
+) => {
+  let socket: WebSocket | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let retryDelay = RETRY_MIN_MS;
+  let closed = false;
+
+  const open = () => {
+    onStatus('connecting');
+    try {
+      socket = new WebSocket(url);
+    } catch (e) {
+      console.error("Remote connection error:", e);
+      scheduleRetry();
+      return;
+    }
+    socket.onopen = () => {
+      retryDelay = RETRY_MIN_MS;
+      onStatus('open');
+      if (announce) send({ address: '/lumemap/hello', args: [document.title] });
+    };
+    socket.onmessage = (e: MessageEvent) => {
+      try {
+        const message = JSON.parse(e.data);
+        if (typeof message?.address === 'string') onMessage({ address: message.address, args: Array.isArray(message.args) ? message.args : [] });
+      } catch (err) {
+        console.error("Remote message parse error:", err);
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (!closed) scheduleRetry();
+    };
+  };
+
+  const scheduleRetry = () => {
+    onStatus('closed');
+    retryTimer = setTimeout(open, retryDelay);
+    retryDelay = Math.min(RETRY_MAX_MS, retryDelay * 2);
+  };
+
+  const send = (message: RemoteMessage) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  open();
+
+  return {
+    send,
+    close: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+      onStatus('closed');
+    },
+  };
+};
+
+// --- PROTOCOL ---
+
+export interface RemoteResult {
+  replies: RemoteMessage[];
+  update?: { label: string; shapeId: string; key: string; apply: (shape: Shape) => Shape };
+}
+
+// Simplified surfaces for remote thumbnails, published on /layout
+export interface LayoutSurface {
+  id: string;
+  name: string;
+  visible: boolean;
+  points: Point[];
+  color: string;
+  opacity: number;
+  fillType: FillType;
+  effect: EffectType;
+  mediaFill: FillType | null; // the video or image fill this surface can switch back to
+  isEllipse: boolean;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export const layoutMessage = (shapes: Shape[]): RemoteMessage => ({
+  address: '/layout',
+  args: [JSON.stringify(shapes.map((s): LayoutSurface => ({
+    id: s.id,
+    name: s.name,
+    visible: s.visible,
+    points: s.points.map(p => ({ x: round(p.x), y: round(p.y) })),
+    color: s.style.color,
+    opacity: s.style.opacity,
+    fillType: s.style.fillType,
+    effect: s.style.effect,
+    mediaFill: s.style.videoSrc ? FillType.VIDEO : s.style.imageSrc ? FillType.IMAGE : null,
+    isEllipse: !!s.ellipse,
+  })))],
+});
+
+export const parseLayout = (message: RemoteMessage): LayoutSurface[] | null => {
+  try { return JSON.parse(String(message.args?.[0])); } catch { return null; }
+};
+
+const reply = (address: string, ...args: RemoteArg[]): RemoteResult => ({ replies: [{ address, args }] });
+const fail = (address: string, reason: string): RemoteResult => reply('/error', address, reason);
+
+const toBoolean = (arg: RemoteArg) => typeof arg === 'string' ? arg === 'true' || arg === '1' : !!arg;
+
+// Surfaces are addressed by name (URL-encoded when it holds spaces or slashes) or by id
+const decodeName = (ref: string) => {
+  try { return decodeURIComponent(ref); } catch { return ref; }
+};
+
+const findSurface = (shapes: Shape[], ref: string) => {
+  const key = decodeName(ref);
+  return shapes.find(s => s.name === key) || shapes.find(s => s.id === key);
+};
+
+const describeSurface = (shape: Shape) =>
+  JSON.stringify({ id: shape.id, name: shape.name, type: shape.type, visible: shape.visible, points: shape.points, style: shape.style });
+
+const parsePoints = (args: RemoteArg[]): Point[] | null => {
+  if (args.length < 6 || args.length % 2 !== 0 || args.some(a => typeof a !== 'number')) return null;
+  const points: Point[] = [];
+  for (let i = 0; i < args.length; i += 2) points.push({ x: args[i] as number, y: args[i + 1] as number });
+  return points;
+};
+
+/** Validates a style patch from JSON or a single key, coercing values to the types the editor stores. */
+const parseStyle = (patch: Record<string, unknown>): Partial<ShapeStyle> | string => {
+  const style: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    const type = STYLE_KEYS[key as keyof ShapeStyle];
+    if (!type) return `Unknown style key "${key}"`;
+    if (type === 'number') {
+      const num = typeof value === 'number' ? value : parseFloat(String(value));
+      if (!Number.isFinite(num)) return `"${key}" needs a number`;
+      style[key] = key === 'opacity' ? Math.max(0, Math.min(1, num)) : num;
+    } else {
+      style[key] = String(value);
+    }
+  }
+  if (style.effect !== undefined && !Object.values(EffectType).includes(style.effect as EffectType)) return `Unknown effect "${style.effect}"`;
+  if (style.fillType !== undefined && !Object.values(FillType).includes(style.fillType as FillType)) return `Unknown fill "${style.fillType}"`;
+  return style as Partial<ShapeStyle>;
+};
+
+/**
+ * Resolves one incoming message against the current shapes: queries produce
+ * replies, sets produce a shape update for the editor to commit (and echo the
+ * new value back so every connected tool stays in step).
+ */
+export const handleRemoteMessage = (shapes: Shape[], { address, args = [] }: RemoteMessage): RemoteResult => {
+  const parts = address.split('/').filter(Boolean);
+
+  if (parts[0] === 'lumemap') return { replies: [] };
+  if (address === '/surfaces') return reply(address, ...shapes.map(s => s.name));
+  if (address === '/layout') return { replies: [layoutMessage(shapes)] };
+  if (parts[0] !== 'surface' || parts.length < 2) return fail(address, 'Unknown address');
+
+  const shape = findSurface(shapes, parts[1]);
+  if (!shape) return fail(address, `No surface "${decodeName(parts[1])}"`);
+  const property = parts[2];
+  const query = args.length === 0;
+
+  if (!property) return query ? reply(address, describeSurface(shape)) : fail(address, 'Surfaces are set one property at a time');
+
+  const update = (label: string, apply: (shape: Shape) => Shape, ...echo: RemoteArg[]): RemoteResult =>
+    ({ replies: [{ address, args: echo }], update: { label, shapeId: shape.id, key: property, apply } });
+
+  switch (property) {
+    case 'visible': {
+      if (query) return reply(address, shape.visible);
+      const visible = toBoolean(args[0]);
+      return update('Remote visibility', s => ({ ...s, visible }), visible);
+    }
+    case 'name': {
+      if (query) return reply(address, shape.name);
+      const name = String(args[0]);
+      return update('Remote rename', s => ({ ...s, name }), name);
+    }
+    case 'points': {
+      if (query) return reply(address, ...shape.points.flatMap(p => [p.x, p.y]));
+      if (shape.ellipse) return fail(address, 'Ellipse surfaces cannot take raw points');
+      const points = parsePoints(args);
+      if (!points) return fail(address, 'Points need at least three x,y pairs');
+      return update('Remote points', s => ({ ...s, points, edges: undefined }), ...args);
+    }
+    case 'nudge': {
+      // index dx dy: moves one vertex, or the whole surface when index is -1
+      const [index, dx, dy] = args.map(Number);
+      if (query || args.length < 3 || [index, dx, dy].some(n => !Number.isFinite(n))) return fail(address, 'Nudge needs index dx dy');
+      if (index === -1) return update('Remote nudge', s => translateShape(s, dx, dy), ...args);
+      if (shape.ellipse) return fail(address, 'Ellipse surfaces can only be nudged whole');
+      if (!shape.points[index]) return fail(address, `No vertex ${index}`);
+      return update('Remote nudge', s => {
+        const points = [...s.points];
+        points[index] = { x: Math.max(0, Math.min(1, points[index].x + dx)), y: Math.max(0, Math.min(1, points[index].y + dy)) };
+        return { ...s, points, edges: s.edges && moveAttachedControls(s, index, points[index]) };
+      }, ...args);
+    }
+    case 'style': {
+      if (query) return reply(address, JSON.stringify(shape.style));
+      let patch: Record<string, unknown>;
+      try { patch = JSON.parse(String(args[0])); } catch { return fail(address, 'Style needs a JSON object'); }
+      const style = parseStyle(patch ?? {});
+      if (typeof style === 'string') return fail(address, style);
+      return update('Remote style', s => ({ ...s, style: { ...s.style, ...style } }), JSON.stringify(style));
+    }
+    default: {
+      const key = property as keyof ShapeStyle;
+      if (!STYLE_KEYS[key]) return fail(address, `Unknown property "${property}"`);
+      if (query) return reply(address, (shape.style[key] as RemoteArg | undefined) ?? '');
+      const style = parseStyle({ [key]: args[0] });
+      if (typeof style === 'string') return fail(address, style);
+      return update('Remote style', s => ({ ...s, style: { ...s.style, ...style } }), style[key] as RemoteArg);
+    }
+  }
+};
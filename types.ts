@@ -10,6 +10,20 @@ export enum EffectType {
   BREATHE = 'breathe',
   RAINBOW = 'rainbow',
   WARP = 'warp',
+  AUDIO_PULSE = 'audio-pulse',
+  AUDIO_COLOR = 'audio-color',
+  AUDIO_SCALE = 'audio-scale',
+}
+
+export type AudioBand = 'level' | 'bass' | 'mid' | 'treble' | 'beat';
+
+// Length of one synced effect cycle, in bars
+export type BeatDivision = 0.25 | 0.5 | 1 | 2;
+
+export interface TempoClock {
+  bpm: number;
+  beatsPerBar: number;
+  anchor: number; // wall-clock ms of a downbeat
 }
 
 export enum FillType {
@@ -23,35 +37,210 @@ export enum FillType {
 export enum MappingMode {
   MASK = 'mask',
   STRETCH = 'stretch',
+  MESH = 'mesh',
 }
 
+export enum StrokeEffect {
+  NONE = 'none',
+  CHASE = 'chase',
+}
+
+export type StrokeAlign = 'inside' | 'center' | 'outside';
+export type StrokeDash = 'solid' | 'dashed' | 'dotted';
+
 export type ShapeType = 'polygon' | 'circle' | 'square';
 
 export interface ShapeStyle {
   color: string;
   opacity: number;
   strokeColor: string;
-  strokeWidth: number;
+  strokeWidth: number; // outline width in pixels; 0 draws no outline
+  strokeAlign?: StrokeAlign;
+  strokeDash?: StrokeDash;
+  strokeGlow?: number; // blur radius in pixels
+  strokeEffect?: StrokeEffect;
+  strokeSpeed?: number;
+  audioBand?: AudioBand; // signal driving the AUDIO_* effects
+  audioGain?: number;
+  beatDivision?: BeatDivision; // locks STROBE / BREATHE / RAINBOW to the tempo clock; unset runs free on effectSpeed
   effect: EffectType;
   effectSpeed: number;
   fillType: FillType;
   mappingMode: MappingMode;
   videoSrc?: string;
   imageSrc?: string;
+  videoAssetId?: string;
+  imageAssetId?: string;
   videoMuted?: boolean;
+  feather?: number; // soft-edge width inside the outline, as a fraction of the stage's shorter side
+  featherCurve?: BlendCurve;
+}
+
+// Curved edge between two consecutive points; control points are absolute, normalized
+export type BezierEdge =
+  | { kind: 'quadratic'; c1: Point }
+  | { kind: 'cubic'; c1: Point; c2: Point };
+
+// Center and radii in the same normalized space as points (radiusY along the stage height);
+// rotation (radians) is applied in aspect-corrected space so it turns rigidly on screen
+export interface EllipseGeometry {
+  center: Point;
+  radiusX: number;
+  radiusY: number;
+  rotation: number;
+}
+
+// Row-major lattice of columns x rows control points warping content in MESH mode
+export interface MeshLattice {
+  columns: number;
+  rows: number;
+  points: Point[];
+  interpolation: 'bilinear' | 'spline';
+}
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'hold';
+
+export type AnimatableProperty = 'opacity' | 'color' | 'effectSpeed' | 'feather' | 'strokeColor' | 'strokeWidth' | 'strokeGlow' | 'strokeSpeed' | 'geometry';
+
+// Everything that positions a surface; keyed as one value so a pose moves together
+export type ShapeGeometry = Pick<Shape, 'points' | 'ellipse' | 'edges' | 'mesh'>;
+
+// The easing shapes the segment from this keyframe to the next
+export interface Keyframe {
+  time: number; // seconds into the animation
+  value: number | string | ShapeGeometry;
+  easing: Easing;
+}
+
+export interface KeyframeTrack {
+  property: AnimatableProperty;
+  keyframes: Keyframe[];
+}
+
+export interface ShapeAnimation {
+  duration: number; // seconds
+  loop: boolean;
+  tracks: KeyframeTrack[];
+}
+
+// Named set of surfaces that select, transform and toggle together; every member carries the same id and name
+export interface ShapeGroup {
+  id: string;
+  name: string;
 }
 
 export interface Shape {
   id: string;
   name: string;
   type: ShapeType;
+  group?: ShapeGroup;
   points: Point[];
+  ellipse?: EllipseGeometry;
+  edges?: (BezierEdge | null)[]; // edges[i] runs from points[i] to points[i + 1]; null is straight
+  mesh?: MeshLattice;
+  animation?: ShapeAnimation;
   visible: boolean;
   isClosed: boolean;
   style: ShapeStyle;
 }
 
-export type EditorMode = 'IDLE' | 'DRAWING' | 'EDITING' | 'PROJECTING';
+export type BlendCurve = 'linear' | 'smoothstep' | 'cosine';
+
+// Soft-edge ramps along each border of an output; widths are fractions of that output's size
+export interface EdgeBlend {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+  gamma: number;
+  curve: BlendCurve;
+}
+
+// One projector's slice of the stage, as a normalized rectangle of the shared canvas space
+export interface OutputRegion {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  blend: EdgeBlend;
+}
+
+// Ruler guide in stage space: a vertical line at x = position, or a horizontal one at y = position
+export interface Guide {
+  id: string;
+  axis: 'x' | 'y';
+  position: number;
+}
+
+// Whole-frame corner pin for an off-axis projector, applied after everything else is drawn.
+// Corners run TL, TR, BR, BL as fractions of the output frame; the optional lattice lives in
+// the pinned square's own 0..1 space and bends the picture further inside it.
+export interface Keystone {
+  corners: Point[];
+  mesh?: MeshLattice;
+}
+
+// The parts of a surface a cue can set; omitted fields keep whatever earlier cues left
+export type CueLook = Partial<Pick<ShapeStyle, 'color' | 'opacity' | 'effect' | 'effectSpeed' | 'fillType'>> & {
+  visible?: boolean;
+};
+
+export interface Cue {
+  id: string;
+  name: string;
+  time: number; // seconds from show start
+  fade: number; // crossfade from the previous look, in seconds
+  looks: Record<string, CueLook>; // keyed by shape id
+}
+
+// Show clock: position (seconds) as of the wall-clock anchor (ms), advancing while playing
+export interface Transport {
+  playing: boolean;
+  position: number;
+  anchor: number;
+}
+
+// One frame of the structured-light calibration sequence, drawn full-stage on the projector
+export type CalibrationPattern =
+  | { kind: 'white' }
+  | { kind: 'black' }
+  | { kind: 'gray'; axis: 'x' | 'y'; bit: number; inverted: boolean };
+
+// Camera-to-stage correspondence solved from a captured sequence, at the camera analysis resolution
+export interface CalibrationMap {
+  width: number;
+  height: number;
+  u: Float32Array; // stage x per camera pixel, NaN where the pixel could not be decoded
+  v: Float32Array;
+  homography: number[] | null; // best single perspective fit, used outside the decoded area
+  coverage: number; // fraction of camera pixels decoded
+  reference: ImageData; // the camera's view under the white frame, for tracing
+}
+
+export interface MidiTrigger {
+  kind: 'cc' | 'note';
+  channel: number; // 1-16
+  number: number;
+}
+
+// What a MIDI control drives; shape and version targets refer to ids in the project
+export type MidiTarget =
+  | { action: 'opacity'; shapeId: string }
+  | { action: 'visibility'; shapeId: string }
+  | { action: 'effect'; shapeId: string; effect: EffectType }
+  | { action: 'effectSpeed'; shapeId: string }
+  | { action: 'master' }
+  | { action: 'version'; versionId: string };
+
+export interface MidiMapping {
+  id: string;
+  trigger: MidiTrigger;
+  target: MidiTarget;
+}
+
+export type EditorMode = 'IDLE' | 'DRAWING' | 'EDITING' | 'PROJECTING' | 'KEYSTONE';
 
 export interface AppState {
   shapes: Shape[];
@@ -71,5 +260,13 @@ export interface ProjectVersion {
 export interface Project {
   id: string;
   name: string;
+  shapes: Shape[];
   versions: ProjectVersion[];
+  outputs?: OutputRegion[];
+  keystone?: Keystone;
+  guides?: Guide[];
+  cues?: Cue[];
+  midiMappings?: MidiMapping[];
+  createdAt: number;
+  updatedAt: number;
 }
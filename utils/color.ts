@@ -0,0 +1,41 @@
+/**
+ * LumeMap Color Utilities
+ * Helpers for blending and shifting the #rrggbb colors surfaces are styled with.
+ */
+
+export const parseHex = (color: string) => {
+  const match = /^#([0-9a-f]{6})$/i.exec(color);
+  if (!match) return null;
+  const n = parseInt(match[1], 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const toHex = (channels: number[]) =>
+  '#' + channels.map(c => Math.round(Math.max(0, Math.min(255, c))).toString(16).padStart(2, '0')).join('');
+
+// Hex colors blend channel by channel; anything else cuts over halfway through the fade
+export const mixColor = (from: string, to: string, t: number) => {
+  const a = parseHex(from), b = parseHex(to);
+  if (!a || !b) return t < 0.5 ? from : to;
+  return toHex(a.map((c, i) => c + (b[i] - c) * t));
+};
+
+/** Rotates the hue of a hex color by the given degrees, keeping its saturation and lightness. */
+export const shiftHue = (color: string, degrees: number) => {
+  const rgb = parseHex(color);
+  if (!rgb) return color;
+  const [r, g, b] = rgb.map(c => c / 255);
+  const max = Math.max(r, g, b), min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return color;
+  const s = d / (1 - Math.abs(2 * l - 1));
+  const h = max === r ? ((g - b) / d) % 6 : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  const hue = ((h * 60 + degrees) % 360 + 360) % 360;
+
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs((hue / 60) % 2 - 1));
+  const m = l - c / 2;
+  const [r1, g1, b1] = hue < 60 ? [c, x, 0] : hue < 120 ? [x, c, 0] : hue < 180 ? [0, c, x] : hue < 240 ? [0, x, c] : hue < 300 ? [x, 0, c] : [c, 0, x];
+  return toHex([(r1 + m) * 255, (g1 + m) * 255, (b1 + m) * 255]);
+};
@@ -0,0 +1,91 @@
+import { EdgeBlend, BlendCurve, OutputRegion } from '../types';
+
+/**
+ * LumeMap Edge Blending
+ * Where two projectors overlap, each one ramps its light down across the
+ * shared band so the summed brightness stays flat. The ramp is applied as a
+ * final pass over a finished frame, after every surface has been drawn.
+ */
+
+// Color stops per ramp; enough that gamma-shaped curves show no banding
+const RAMP_STOPS = 32;
+
+export const DEFAULT_BLEND: EdgeBlend = { left: 0, right: 0, top: 0, bottom: 0, gamma: 2.2, curve: 'smoothstep' };
+
+const CURVES: Record<BlendCurve, (t: number) => number> = {
+  linear: t => t,
+  smoothstep: t => t * t * (3 - 2 * t),
+  cosine: t => 0.5 - 0.5 * Math.cos(Math.PI * t),
+};
+
+export const falloff = (curve: BlendCurve, t: number) => CURVES[curve](Math.max(0, Math.min(1, t)));
+
+/**
+ * Signal level at position t across a ramp (0 = outer edge, 1 = inner edge).
+ * The curve shapes the emitted light; dividing out the projector gamma turns
+ * it back into the pixel value that produces that light.
+ */
+export const blendLevel = (t: number, blend: EdgeBlend) => {
+  const light = falloff(blend.curve, t);
+  return Math.pow(light, 1 / Math.max(0.1, blend.gamma));
+};
+
+export const hasBlend = (blend: EdgeBlend) => blend.left > 0 || blend.right > 0 || blend.top > 0 || blend.bottom > 0;
+
+/** Darkens the borders of the frame already on the canvas according to the blend zones. */
+export const drawEdgeBlend = (ctx: CanvasRenderingContext2D, blend: EdgeBlend, w: number, h: number) => {
+  if (!hasBlend(blend)) return;
+  const sides: { size: number; x0: number; y0: number; x1: number; y1: number; rect: [number, number, number, number] }[] = [
+    { size: blend.left * w, x0: 0, y0: 0, x1: blend.left * w, y1: 0, rect: [0, 0, blend.left * w, h] },
+    { size: blend.right * w, x0: w, y0: 0, x1: w - blend.right * w, y1: 0, rect: [w - blend.right * w, 0, blend.right * w, h] },
+    { size: blend.top * h, x0: 0, y0: 0, x1: 0, y1: blend.top * h, rect: [0, 0, w, blend.top * h] },
+    { size: blend.bottom * h, x0: 0, y0: h, x1: 0, y1: h - blend.bottom * h, rect: [0, h - blend.bottom * h, w, blend.bottom * h] },
+  ];
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = 1;
+  // destination-out keeps dst * (1 - srcAlpha): overlapping corners multiply as they should
+  ctx.globalCompositeOperation = 'destination-out';
+  sides.forEach(({ size, x0, y0, x1, y1, rect }) => {
+    if (size <= 0) return;
+    const gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+    for (let i = 0; i <= RAMP_STOPS; i++) {
+      const t = i / RAMP_STOPS;
+      gradient.addColorStop(t, `rgba(0, 0, 0, ${1 - blendLevel(t, blend)})`);
+    }
+    ctx.fillStyle = gradient;
+    ctx.fillRect(...rect);
+  });
+  ctx.restore();
+};
+
+export const createOutput = (index: number): OutputRegion => ({
+  id: Math.random().toString(36).substr(2, 9),
+  name: `Projector ${index + 1}`,
+  x: 0,
+  y: 0,
+  width: 1,
+  height: 1,
+  blend: { ...DEFAULT_BLEND },
+});
+
+/**
+ * Lays the outputs out side by side across the full stage, each neighbouring
+ * pair sharing an overlap band (a fraction of the stage width) that both
+ * sides blend across.
+ */
+export const tileOutputs = (outputs: OutputRegion[], overlap: number): OutputRegion[] => {
+  const n = outputs.length;
+  if (n === 0) return outputs;
+  const width = (1 + (n - 1) * overlap) / n;
+  const band = n > 1 ? overlap / width : 0;
+  return outputs.map((output, i) => ({
+    ...output,
+    x: i * (width - overlap),
+    y: 0,
+    width,
+    height: 1,
+    blend: { ...output.blend, left: i > 0 ? band : 0, right: i < n - 1 ? band : 0 },
+  }));
+};
@@ -0,0 +1,380 @@
+import { Point, EllipseGeometry, BezierEdge, Shape, MeshLattice, ShapeGeometry } from '../types';
+
+/**
+ * LumeMap Geometry Utilities
+ * Projective and curve math shared by the renderer and the editor for
+ * mapping flat content onto keystoned or curved projector surfaces.
+ */
+
+// Row-major 3x3 matrix [a, b, c, d, e, f, g, h, i]
+export type Homography = number[];
+
+/**
+ * Builds the homography that maps the unit square (u, v) onto a quad
+ * whose corners are ordered top-left, top-right, bottom-right, bottom-left.
+ */
+export const squareToQuad = (quad: Point[]): Homography => {
+  const [p0, p1, p2, p3] = quad;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  // Parallelogram: the mapping degenerates to a plain affine transform
+  if (Math.abs(dx3) < 1e-9 && Math.abs(dy3) < 1e-9) {
+    return [
+      p1.x - p0.x, p3.x - p0.x, p0.x,
+      p1.y - p0.y, p3.y - p0.y, p0.y,
+      0, 0, 1
+    ];
+  }
+
+  const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x;
+  const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y;
+  const den = dx1 * dy2 - dx2 * dy1;
+  if (Math.abs(den) < 1e-12) {
+    return [p1.x - p0.x, p3.x - p0.x, p0.x, p1.y - p0.y, p3.y - p0.y, p0.y, 0, 0, 1];
+  }
+  const g = (dx3 * dy2 - dx2 * dy3) / den;
+  const h = (dx1 * dy3 - dx3 * dy1) / den;
+
+  return [
+    p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+    p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+    g, h, 1
+  ];
+};
+
+export const applyHomography = (H: Homography, u: number, v: number): Point => {
+  const w = H[6] * u + H[7] * v + H[8];
+  return {
+    x: (H[0] * u + H[1] * v + H[2]) / w,
+    y: (H[3] * u + H[4] * v + H[5]) / w
+  };
+};
+
+export const isAffine = (H: Homography) => Math.abs(H[6]) < 1e-9 && Math.abs(H[7]) < 1e-9;
+
+/** Inverse mapping via the adjugate; null when the quad has collapsed. */
+export const invertHomography = (H: Homography): Homography | null => {
+  const [a, b, c, d, e, f, g, h, i] = H;
+  const A = e * i - f * h, B = f * g - d * i, C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  if (Math.abs(det) < 1e-12) return null;
+  return [
+    A / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    C / det, (b * g - a * h) / det, (a * e - b * d) / det
+  ];
+};
+
+// Gaussian elimination with partial pivoting; null when the system is singular
+const solveLinear = (A: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+    if (Math.abs(M[pivot][col]) < 1e-12) return null;
+    [M[col], M[pivot]] = [M[pivot], M[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = M[r][col] / M[col][col];
+      for (let c = col; c <= n; c++) M[r][c] -= f * M[col][c];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = M[r][n];
+    for (let c = r + 1; c < n; c++) sum -= M[r][c] * x[c];
+    x[r] = sum / M[r][r];
+  }
+  return x;
+};
+
+/**
+ * Least-squares homography taking each `from` point onto its `to` point
+ * (at least four pairs, not all collinear); null when the fit is degenerate.
+ */
+export const fitHomography = (from: Point[], to: Point[]): Homography | null => {
+  if (from.length < 4 || from.length !== to.length) return null;
+  // Normal equations of the linearised DLT with H[8] fixed to 1
+  const AtA = Array.from({ length: 8 }, () => new Array(8).fill(0));
+  const Atb = new Array(8).fill(0);
+  const accumulate = (row: number[], rhs: number) => {
+    for (let i = 0; i < 8; i++) {
+      Atb[i] += row[i] * rhs;
+      for (let j = 0; j < 8; j++) AtA[i][j] += row[i] * row[j];
+    }
+  };
+  from.forEach((p, i) => {
+    const q = to[i];
+    accumulate([p.x, p.y, 1, 0, 0, 0, -p.x * q.x, -p.y * q.x], q.x);
+    accumulate([0, 0, 0, p.x, p.y, 1, -p.x * q.y, -p.y * q.y], q.y);
+  });
+  const h = solveLinear(AtA, Atb);
+  return h && h.every(Number.isFinite) ? [...h, 1] : null;
+};
+
+// --- ELLIPSES ---
+
+const ELLIPSE_SEGMENTS = 64;
+
+/**
+ * Point at the given angle on the ellipse, optionally scaled toward its center.
+ * Rotation happens in stage-square space (y divided by the width/height aspect) so a
+ * rotated ellipse keeps its shape on screen instead of shearing on a wide stage.
+ */
+export const ellipsePoint = (e: EllipseGeometry, aspect: number, angle: number, scale = 1): Point => {
+  const x = Math.cos(angle) * e.radiusX * scale;
+  const y = Math.sin(angle) * e.radiusY / aspect * scale;
+  const cos = Math.cos(e.rotation), sin = Math.sin(e.rotation);
+  return { x: e.center.x + x * cos - y * sin, y: e.center.y + (x * sin + y * cos) * aspect };
+};
+
+/** Polygon outline used for hit testing and bounds; rendering draws the true curve. */
+export const ellipseToPoints = (e: EllipseGeometry, aspect: number, segments = ELLIPSE_SEGMENTS): Point[] =>
+  Array.from({ length: segments }, (_, i) => ellipsePoint(e, aspect, (i / segments) * Math.PI * 2));
+
+export type EllipseHandle = 'center' | 'radiusX' | 'radiusY';
+
+export const ellipseHandles = (e: EllipseGeometry, aspect: number): Record<EllipseHandle, Point> => ({
+  center: e.center,
+  radiusX: ellipsePoint(e, aspect, 0),
+  radiusY: ellipsePoint(e, aspect, Math.PI / 2),
+});
+
+/** Applies a handle drag: center moves, radiusX also sets rotation, radiusY stays perpendicular. */
+export const dragEllipseHandle = (e: EllipseGeometry, aspect: number, handle: EllipseHandle, p: Point): EllipseGeometry => {
+  const dx = p.x - e.center.x, dy = (p.y - e.center.y) / aspect;
+  if (handle === 'center') return { ...e, center: p };
+  if (handle === 'radiusX') return { ...e, radiusX: Math.max(0.005, Math.hypot(dx, dy)), rotation: Math.atan2(dy, dx) };
+  return { ...e, radiusY: Math.max(0.005, Math.abs(-dx * Math.sin(e.rotation) + dy * Math.cos(e.rotation)) * aspect) };
+};
+
+// --- BEZIER EDGES ---
+
+type OutlineShape = Pick<Shape, 'points' | 'edges' | 'isClosed'>;
+
+const BEZIER_STEPS = 16;
+
+const lerpPoint = (a: Point, b: Point, t: number): Point => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+export const bezierPoint = (a: Point, edge: BezierEdge | null | undefined, b: Point, t: number): Point => {
+  const mt = 1 - t;
+  if (edge?.kind === 'quadratic') {
+    return {
+      x: mt * mt * a.x + 2 * mt * t * edge.c1.x + t * t * b.x,
+      y: mt * mt * a.y + 2 * mt * t * edge.c1.y + t * t * b.y
+    };
+  }
+  if (edge?.kind === 'cubic') {
+    return {
+      x: mt * mt * mt * a.x + 3 * mt * mt * t * edge.c1.x + 3 * mt * t * t * edge.c2.x + t * t * t * b.x,
+      y: mt * mt * mt * a.y + 3 * mt * mt * t * edge.c1.y + 3 * mt * t * t * edge.c2.y + t * t * t * b.y
+    };
+  }
+  return lerpPoint(a, b, t);
+};
+
+export const edgeCount = (shape: OutlineShape) => shape.isClosed === false ? shape.points.length - 1 : shape.points.length;
+
+export const hasCurvedEdges = (shape: OutlineShape) => !!shape.edges?.some(Boolean);
+
+/** Point at parameter t along edge i, following its curve if it has one. */
+export const shapeEdgePoint = (shape: OutlineShape, i: number, t: number): Point => {
+  const n = shape.points.length;
+  return bezierPoint(shape.points[i % n], shape.edges?.[i % n], shape.points[(i + 1) % n], t);
+};
+
+/** Polyline through every edge, with curves subdivided; used for hit testing. */
+export const flattenOutline = (shape: OutlineShape, steps = BEZIER_STEPS): Point[] => {
+  if (!hasCurvedEdges(shape)) return shape.points;
+  const out: Point[] = [];
+  for (let i = 0; i < edgeCount(shape); i++) {
+    const edgeSteps = shape.edges?.[i] ? steps : 1;
+    for (let s = 0; s < edgeSteps; s++) out.push(shapeEdgePoint(shape, i, s / edgeSteps));
+  }
+  if (shape.isClosed === false) out.push(shape.points[shape.points.length - 1]);
+  return out;
+};
+
+/** Default control points for turning edge i into a curve, bowed out from the chord. */
+export const createBezierEdge = (shape: OutlineShape, i: number, kind: BezierEdge['kind']): BezierEdge => {
+  const a = shape.points[i], b = shape.points[(i + 1) % shape.points.length];
+  const bow = { x: (b.y - a.y) * -0.2, y: (b.x - a.x) * 0.2 };
+  const at = (t: number) => { const p = lerpPoint(a, b, t); return { x: p.x + bow.x, y: p.y + bow.y }; };
+  return kind === 'quadratic' ? { kind, c1: at(0.5) } : { kind, c1: at(1 / 3), c2: at(2 / 3) };
+};
+
+// Control handles travel with their vertex: fully for cubic, halfway for a shared quadratic
+export const moveAttachedControls = (shape: OutlineShape, idx: number, to: Point) => {
+  const from = shape.points[idx];
+  const n = shape.points.length;
+  const shift = (c: Point, k: number) => ({ x: c.x + (to.x - from.x) * k, y: c.y + (to.y - from.y) * k });
+  return shape.edges!.map((edge, i) => {
+    if (!edge) return edge;
+    const isStart = i === idx, isEnd = (i + 1) % n === idx;
+    if (!isStart && !isEnd) return edge;
+    if (edge.kind === 'quadratic') return { ...edge, c1: shift(edge.c1, 0.5) };
+    return { ...edge, c1: isStart ? shift(edge.c1, 1) : edge.c1, c2: isEnd ? shift(edge.c2, 1) : edge.c2 };
+  });
+};
+
+/** Maps a surface's geometry and every pose on its `geometry` keyframe track the same way. */
+const mapGeometry = (shape: Shape, map: (g: ShapeGeometry) => ShapeGeometry): Shape => ({
+  ...shape,
+  ...map(shape),
+  animation: shape.animation && {
+    ...shape.animation,
+    tracks: shape.animation.tracks.map(track => track.property !== 'geometry' ? track : {
+      ...track,
+      keyframes: track.keyframes.map(key => ({ ...key, value: map(key.value as ShapeGeometry) })),
+    }),
+  },
+});
+
+// Older poses carry no mesh key; leave it absent so applying them keeps the live lattice
+const mapPoints = (g: ShapeGeometry, move: (p: Point) => Point): Pick<ShapeGeometry, 'edges' | 'mesh'> => ({
+  edges: g.edges?.map(edge => !edge ? edge : edge.kind === 'quadratic' ? { ...edge, c1: move(edge.c1) } : { ...edge, c1: move(edge.c1), c2: move(edge.c2) }),
+  ...('mesh' in g ? { mesh: g.mesh && { ...g.mesh, points: g.mesh.points.map(move) } } : {}),
+});
+
+/** Moves a whole surface: outline, curve handles, ellipse center, warp mesh and keyed poses together. */
+export const translateShape = (shape: Shape, dx: number, dy: number): Shape => {
+  const move = (p: Point) => ({ x: p.x + dx, y: p.y + dy });
+  return mapGeometry(shape, g => ({
+    points: g.points.map(move),
+    ellipse: g.ellipse && { ...g.ellipse, center: move(g.ellipse.center) },
+    ...mapPoints(g, move),
+  }));
+};
+
+// 2D affine map in canvas order: x' = a*x + c*y + e, y' = b*x + d*y + f
+export type Affine = [number, number, number, number, number, number];
+
+export const applyAffine = (m: Affine, p: Point): Point => ({
+  x: m[0] * p.x + m[2] * p.y + m[4],
+  y: m[1] * p.x + m[3] * p.y + m[5]
+});
+
+/** Ellipse under an affine map, read back from the singular values of its mapped frame. */
+const transformEllipse = (e: EllipseGeometry, m: Affine, aspect: number): EllipseGeometry => {
+  const cos = Math.cos(e.rotation), sin = Math.sin(e.rotation);
+  // The frame lives in stage-square space, like ellipsePoint's rotation
+  const a = m[0], b = m[1] / aspect, c = m[2] * aspect, d = m[3];
+  const rx = e.radiusX, ry = e.radiusY / aspect;
+  // Columns of A * R(rotation) * diag(radiusX, radiusY)
+  const u = { x: (a * cos + c * sin) * rx, y: (b * cos + d * sin) * rx };
+  const v = { x: (c * cos - a * sin) * ry, y: (d * cos - b * sin) * ry };
+  // Closed-form 2x2 SVD: the frame is R(phi) * diag(q + r, q - r) * R(theta)
+  const E = (u.x + v.y) / 2, F = (u.x - v.y) / 2, G = (u.y + v.x) / 2, H = (u.y - v.x) / 2;
+  const q = Math.hypot(E, H), r = Math.hypot(F, G);
+  const phi = (Math.atan2(H, E) + Math.atan2(G, F)) / 2;
+  return { center: applyAffine(m, e.center), radiusX: q + r, radiusY: Math.abs(q - r) * aspect, rotation: phi };
+};
+
+/** Applies an affine map to a whole surface and its keyed poses, keeping ellipses as true ellipses. */
+export const transformShape = (shape: Shape, m: Affine, aspect: number): Shape => {
+  const map = (p: Point) => applyAffine(m, p);
+  return mapGeometry(shape, g => {
+    const ellipse = g.ellipse && transformEllipse(g.ellipse, m, aspect);
+    return { points: ellipse ? ellipseToPoints(ellipse, aspect) : g.points.map(map), ellipse, ...mapPoints(g, map) };
+  });
+};
+
+/**
+ * Surface map for a 4-point shape: the homography, plus a Coons-patch blend of how
+ * far each curved edge bows away from its straight chord. Straight quads stay exact.
+ */
+export const quadSurfaceMap = (shape: OutlineShape) => {
+  const H = squareToQuad(shape.points);
+  if (!hasCurvedEdges(shape)) return (u: number, v: number) => applyHomography(H, u, v);
+
+  const bow = (i: number, t: number): Point => {
+    if (!shape.edges?.[i]) return { x: 0, y: 0 };
+    const onCurve = shapeEdgePoint(shape, i, t);
+    const onChord = lerpPoint(shape.points[i], shape.points[(i + 1) % 4], t);
+    return { x: onCurve.x - onChord.x, y: onCurve.y - onChord.y };
+  };
+
+  return (u: number, v: number): Point => {
+    const base = applyHomography(H, u, v);
+    const top = bow(0, u), right = bow(1, v), bottom = bow(2, 1 - u), left = bow(3, 1 - v);
+    return {
+      x: base.x + (1 - v) * top.x + v * bottom.x + (1 - u) * left.x + u * right.x,
+      y: base.y + (1 - v) * top.y + v * bottom.y + (1 - u) * left.y + u * right.y
+    };
+  };
+};
+
+// --- MESH LATTICES ---
+
+export const MESH_MIN_SIZE = 2;
+export const MESH_MAX_SIZE = 16;
+
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number) =>
+  0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t + (3 * p1 - p0 - 3 * p2 + p3) * t * t * t);
+
+/** Position on the lattice surface at (u, v), bilinear or Catmull-Rom through the control points. */
+export const meshPoint = (mesh: MeshLattice, u: number, v: number): Point => {
+  const { columns, rows, points } = mesh;
+  const at = (c: number, r: number) =>
+    points[Math.max(0, Math.min(rows - 1, r)) * columns + Math.max(0, Math.min(columns - 1, c))];
+
+  const fx = Math.max(0, Math.min(1, u)) * (columns - 1);
+  const fy = Math.max(0, Math.min(1, v)) * (rows - 1);
+  const c = Math.min(Math.floor(fx), columns - 2), r = Math.min(Math.floor(fy), rows - 2);
+  const tx = fx - c, ty = fy - r;
+
+  if (mesh.interpolation === 'bilinear') {
+    const top = lerpPoint(at(c, r), at(c + 1, r), tx);
+    const bottom = lerpPoint(at(c, r + 1), at(c + 1, r + 1), tx);
+    return lerpPoint(top, bottom, ty);
+  }
+
+  const rowPoint = (rr: number): Point => ({
+    x: catmullRom(at(c - 1, rr).x, at(c, rr).x, at(c + 1, rr).x, at(c + 2, rr).x, tx),
+    y: catmullRom(at(c - 1, rr).y, at(c, rr).y, at(c + 1, rr).y, at(c + 2, rr).y, tx),
+  });
+  const r0 = rowPoint(r - 1), r1 = rowPoint(r), r2 = rowPoint(r + 1), r3 = rowPoint(r + 2);
+  return { x: catmullRom(r0.x, r1.x, r2.x, r3.x, ty), y: catmullRom(r0.y, r1.y, r2.y, r3.y, ty) };
+};
+
+const sampleLattice = (map: (u: number, v: number) => Point, columns: number, rows: number) => {
+  const points: Point[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) points.push(map(c / (columns - 1), r / (rows - 1)));
+  }
+  return points;
+};
+
+/** Lattice fitted to the shape: its quad surface for 4-point shapes, else its bounding box. */
+export const createMeshLattice = (shape: OutlineShape, columns = 4, rows = 4): MeshLattice => {
+  let map: (u: number, v: number) => Point;
+  if (shape.points.length === 4) {
+    map = quadSurfaceMap(shape);
+  } else {
+    const outline = flattenOutline(shape);
+    const xs = outline.map(p => p.x), ys = outline.map(p => p.y);
+    const minX = Math.min(...xs), minY = Math.min(...ys), maxX = Math.max(...xs), maxY = Math.max(...ys);
+    map = (u, v) => ({ x: minX + (maxX - minX) * u, y: minY + (maxY - minY) * v });
+  }
+  return { columns, rows, points: sampleLattice(map, columns, rows), interpolation: 'bilinear' };
+};
+
+/** Changes lattice resolution by sampling the current surface, so existing warps carry over. */
+export const resampleMesh = (mesh: MeshLattice, columns: number, rows: number): MeshLattice => {
+  const clamp = (n: number) => Math.max(MESH_MIN_SIZE, Math.min(MESH_MAX_SIZE, Math.round(n)));
+  const c = clamp(columns), r = clamp(rows);
+  if (c === mesh.columns && r === mesh.rows) return mesh;
+  return { ...mesh, columns: c, rows: r, points: sampleLattice((u, v) => meshPoint(mesh, u, v), c, r) };
+};
+
+/** Boundary of the lattice surface, walked clockwise from the top-left corner. */
+export const meshOutline = (mesh: MeshLattice, steps = 8): Point[] => {
+  const out: Point[] = [];
+  const n = steps * Math.max(mesh.columns, mesh.rows);
+  for (let i = 0; i < n; i++) out.push(meshPoint(mesh, i / n, 0));
+  for (let i = 0; i < n; i++) out.push(meshPoint(mesh, 1, i / n));
+  for (let i = 0; i < n; i++) out.push(meshPoint(mesh, 1 - i / n, 1));
+  for (let i = 0; i < n; i++) out.push(meshPoint(mesh, 0, 1 - i / n));
+  return out;
+};
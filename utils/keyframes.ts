@@ -0,0 +1,139 @@
+import { Shape, Point, Easing, AnimatableProperty, Keyframe, KeyframeTrack, ShapeAnimation, ShapeGeometry, BezierEdge, MeshLattice } from '../types';
+import { mixColor } from './color';
+
+/**
+ * LumeMap Keyframe Animation
+ * Each animated property holds a track of timed values. Between two keys the
+ * value is interpolated with the first key's easing; before the first and
+ * after the last key the nearest value holds. Looping animations repeat
+ * every duration; one-shot animations play once along the show timeline.
+ */
+
+export const ANIMATABLE_PROPERTIES: AnimatableProperty[] = ['opacity', 'color', 'effectSpeed', 'feather', 'strokeColor', 'strokeWidth', 'strokeGlow', 'strokeSpeed', 'geometry'];
+
+export const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: t => t,
+  'ease-in': t => t * t,
+  'ease-out': t => 1 - (1 - t) * (1 - t),
+  'ease-in-out': t => t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t),
+  hold: () => 0,
+};
+
+export const DEFAULT_ANIMATION: ShapeAnimation = { duration: 4, loop: true, tracks: [] };
+
+// Keys closer together than this are the same key
+const KEY_EPSILON = 0.01;
+
+// --- VALUES ---
+
+export const captureValue = (shape: Shape, property: AnimatableProperty): Keyframe['value'] => {
+  switch (property) {
+    case 'geometry': return { points: shape.points, ellipse: shape.ellipse, edges: shape.edges, mesh: shape.mesh };
+    case 'feather': return shape.style.feather ?? 0;
+    case 'strokeGlow': return shape.style.strokeGlow ?? 0;
+    case 'strokeSpeed': return shape.style.strokeSpeed ?? 5;
+    default: return shape.style[property];
+  }
+};
+
+export const applyValue = (shape: Shape, property: AnimatableProperty, value: Keyframe['value']): Shape =>
+  property === 'geometry'
+    ? { ...shape, ...(value as ShapeGeometry) }
+    : { ...shape, style: { ...shape.style, [property]: value } };
+
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+const mixPoint = (a: Point, b: Point, t: number): Point => ({ x: mix(a.x, b.x, t), y: mix(a.y, b.y, t) });
+
+const mixEdge = (a: BezierEdge | null | undefined, b: BezierEdge | null | undefined, t: number): BezierEdge | null => {
+  if (!a || !b || a.kind !== b.kind) return (t < 0.5 ? a : b) ?? null;
+  if (a.kind === 'cubic' && b.kind === 'cubic') return { kind: 'cubic', c1: mixPoint(a.c1, b.c1, t), c2: mixPoint(a.c2, b.c2, t) };
+  return { kind: 'quadratic', c1: mixPoint(a.c1, b.c1, t) };
+};
+
+// Lattices of the same size morph point by point; a resized lattice switches halfway
+const mixMesh = (a: MeshLattice | undefined, b: MeshLattice | undefined, t: number): MeshLattice | undefined => {
+  if (!a || !b || a.columns !== b.columns || a.rows !== b.rows) return t < 0.5 ? a : b;
+  return { ...a, points: a.points.map((p, i) => mixPoint(p, b.points[i], t)) };
+};
+
+// Poses only morph when their structure matches; otherwise the pose switches halfway
+const mixGeometry = (a: ShapeGeometry, b: ShapeGeometry, t: number): ShapeGeometry => {
+  if (a.points.length !== b.points.length || !a.ellipse !== !b.ellipse) return t < 0.5 ? a : b;
+  return {
+    points: a.points.map((p, i) => mixPoint(p, b.points[i], t)),
+    ellipse: a.ellipse && b.ellipse ? {
+      center: mixPoint(a.ellipse.center, b.ellipse.center, t),
+      radiusX: mix(a.ellipse.radiusX, b.ellipse.radiusX, t),
+      radiusY: mix(a.ellipse.radiusY, b.ellipse.radiusY, t),
+      rotation: mix(a.ellipse.rotation, b.ellipse.rotation, t),
+    } : undefined,
+    edges: a.edges || b.edges ? a.points.map((_, i) => mixEdge(a.edges?.[i], b.edges?.[i], t)) : undefined,
+    // Poses keyed before meshes were recorded leave the lattice alone
+    ...(a.mesh || b.mesh ? { mesh: mixMesh(a.mesh, b.mesh, t) } : {}),
+  };
+};
+
+const interpolate = (property: AnimatableProperty, a: Keyframe['value'], b: Keyframe['value'], t: number): Keyframe['value'] => {
+  if (property === 'geometry') return mixGeometry(a as ShapeGeometry, b as ShapeGeometry, t);
+  if (property === 'color' || property === 'strokeColor') return mixColor(a as string, b as string, t);
+  return mix(a as number, b as number, t);
+};
+
+// --- TRACKS ---
+
+export const sortKeyframes = (keyframes: Keyframe[]) => [...keyframes].sort((a, b) => a.time - b.time);
+
+export const sampleTrack = (track: KeyframeTrack, time: number): Keyframe['value'] | undefined => {
+  const keys = sortKeyframes(track.keyframes);
+  if (keys.length === 0) return undefined;
+  if (time <= keys[0].time) return keys[0].value;
+  for (let i = 0; i < keys.length - 1; i++) {
+    const from = keys[i], to = keys[i + 1];
+    if (time < to.time) {
+      const t = EASINGS[from.easing]((time - from.time) / (to.time - from.time));
+      return interpolate(track.property, from.value, to.value, t);
+    }
+  }
+  return keys[keys.length - 1].value;
+};
+
+export const animationTime = (animation: ShapeAnimation, seconds: number) => {
+  if (animation.duration <= 0) return 0;
+  return animation.loop ? ((seconds % animation.duration) + animation.duration) % animation.duration : Math.min(seconds, animation.duration);
+};
+
+/** The shape as its animation poses it at the given clock time (seconds). */
+export const animateShape = (shape: Shape, seconds: number): Shape => {
+  if (!shape.animation) return shape;
+  const time = animationTime(shape.animation, seconds);
+  return shape.animation.tracks.reduce((s, track) => {
+    const value = sampleTrack(track, time);
+    return value === undefined ? s : applyValue(s, track.property, value);
+  }, shape);
+};
+
+/** Adds a key at the given time, replacing any key already there but keeping its easing. */
+export const setKeyframe = (animation: ShapeAnimation, property: AnimatableProperty, time: number, value: Keyframe['value']): ShapeAnimation => {
+  const track = animation.tracks.find(t => t.property === property) ?? { property, keyframes: [] };
+  const existing = track.keyframes.find(k => Math.abs(k.time - time) < KEY_EPSILON);
+  const keyframes = sortKeyframes([
+    ...track.keyframes.filter(k => k !== existing),
+    { time, value, easing: existing?.easing ?? 'ease-in-out' },
+  ]);
+  return { ...animation, tracks: [...animation.tracks.filter(t => t.property !== property), { property, keyframes }] };
+};
+
+export const updateKeyframe = (animation: ShapeAnimation, property: AnimatableProperty, time: number, patch: Partial<Keyframe>): ShapeAnimation => ({
+  ...animation,
+  tracks: animation.tracks.map(track => track.property !== property ? track : {
+    ...track,
+    keyframes: sortKeyframes(track.keyframes.map(k => Math.abs(k.time - time) < KEY_EPSILON ? { ...k, ...patch } : k)),
+  }),
+});
+
+export const removeKeyframe = (animation: ShapeAnimation, property: AnimatableProperty, time: number): ShapeAnimation => ({
+  ...animation,
+  tracks: animation.tracks
+    .map(track => track.property !== property ? track : { ...track, keyframes: track.keyframes.filter(k => Math.abs(k.time - time) >= KEY_EPSILON) })
+    .filter(track => track.keyframes.length > 0),
+});
@@ -0,0 +1,44 @@
+import { Point, Keystone, MeshLattice } from '../types';
+import { squareToQuad, applyHomography, invertHomography, meshPoint, createMeshLattice } from './geometry';
+
+/**
+ * LumeMap Keystone
+ * A projector that is not square-on to the wall throws a trapezoid. The
+ * master corner pin pulls the finished frame back into shape in one place,
+ * so surfaces keep the points they were mapped with. Like edge blending it
+ * is a final pass over the whole frame; the optional lattice takes out the
+ * bow that a flat pin cannot, such as lens distortion or an uneven wall.
+ */
+
+const UNIT_CORNERS: Point[] = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+export const DEFAULT_KEYSTONE: Keystone = { corners: UNIT_CORNERS };
+
+/** Flat lattice over the pinned square: adds mesh control without moving anything yet. */
+export const createKeystoneMesh = (columns = 4, rows = 4): MeshLattice =>
+  createMeshLattice({ points: UNIT_CORNERS, isClosed: true }, columns, rows);
+
+const near = (a: Point, b: Point) => Math.abs(a.x - b.x) < 1e-6 && Math.abs(a.y - b.y) < 1e-6;
+
+/** True when the pin leaves the frame untouched, so the warp pass can be skipped. */
+export const isIdentityKeystone = ({ corners, mesh }: Keystone) =>
+  corners.every((c, i) => near(c, UNIT_CORNERS[i]))
+  && (!mesh || mesh.points.every((p, i) => near(p, { x: (i % mesh.columns) / (mesh.columns - 1), y: Math.floor(i / mesh.columns) / (mesh.rows - 1) })));
+
+/** Where the frame's (u, v) lands on the output: through the lattice, then the corner pin. */
+export const keystonePoint = (keystone: Keystone, u: number, v: number): Point => {
+  const inner = keystone.mesh ? meshPoint(keystone.mesh, u, v) : { x: u, y: v };
+  return applyHomography(squareToQuad(keystone.corners), inner.x, inner.y);
+};
+
+/** Output position of a lattice point, where its handle is drawn. */
+export const keystoneMeshHandle = (keystone: Keystone, p: Point): Point =>
+  applyHomography(squareToQuad(keystone.corners), p.x, p.y);
+
+/** Lattice coordinates under an output position, for dragging a mesh handle; null when the pin has collapsed. */
+export const outputToKeystoneMesh = (keystone: Keystone, p: Point): Point | null => {
+  const inverse = invertHomography(squareToQuad(keystone.corners));
+  if (!inverse) return null;
+  const q = applyHomography(inverse, p.x, p.y);
+  return { x: Math.max(0, Math.min(1, q.x)), y: Math.max(0, Math.min(1, q.y)) };
+};
@@ -0,0 +1,102 @@
+import { Point, Shape, Guide } from '../types';
+import { flattenOutline } from './geometry';
+
+/**
+ * LumeMap Snapping
+ * Pulls a dragged point onto nearby vertices, edges, ruler guides or grid
+ * lines. Distances are judged in screen pixels so the pull feels the same at
+ * any stage size; results stay in normalized stage coordinates. Vertices win
+ * over edges, and edges over the guide and grid lines, which snap each axis
+ * on its own.
+ */
+
+export interface SnapSettings {
+  vertices: boolean;
+  edges: boolean;
+  guides: boolean;
+  grid: boolean;
+  gridDivisions: number; // grid cells across each side of the stage
+}
+
+export const DEFAULT_SNAP: SnapSettings = { vertices: true, edges: true, guides: true, grid: false, gridDivisions: 20 };
+
+// Pull radius, in screen pixels
+export const SNAP_RADIUS = 10;
+
+export type SnapKind = 'vertex' | 'edge' | 'guide' | 'grid';
+
+export interface SnapResult {
+  point: Point;
+  kind: SnapKind;
+}
+
+const closestOnSegment = (p: Point, a: Point, b: Point): Point => {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return { x: a.x + dx * t, y: a.y + dy * t };
+};
+
+/**
+ * Snaps p (normalized) against every visible shape except excludeId, on a
+ * w x h pixel stage. Null when nothing is within reach.
+ */
+export const snapPoint = (
+  p: Point,
+  shapes: Shape[],
+  guides: Guide[],
+  settings: SnapSettings,
+  w: number, h: number,
+  excludeId?: string
+): SnapResult | null => {
+  const pixelDist = (a: Point, b: Point) => Math.hypot((a.x - b.x) * w, (a.y - b.y) * h);
+  const targets = shapes.filter(s => s.visible && s.id !== excludeId);
+
+  if (settings.vertices) {
+    let best: Point | null = null, bestDist = SNAP_RADIUS;
+    // Ellipse points are samples of the curve rather than corners, so edges cover them
+    targets.filter(s => !s.ellipse).forEach(s => s.points.forEach(v => {
+      const d = pixelDist(p, v);
+      if (d < bestDist) { best = v; bestDist = d; }
+    }));
+    if (best) return { point: { ...best }, kind: 'vertex' };
+  }
+
+  if (settings.edges) {
+    let best: Point | null = null, bestDist = SNAP_RADIUS;
+    targets.forEach(s => {
+      const outline = flattenOutline(s);
+      const segments = s.isClosed === false ? outline.length - 1 : outline.length;
+      for (let i = 0; i < segments; i++) {
+        const q = closestOnSegment(p, outline[i], outline[(i + 1) % outline.length]);
+        const d = pixelDist(p, q);
+        if (d < bestDist) { best = q; bestDist = d; }
+      }
+    });
+    if (best) return { point: best, kind: 'edge' };
+  }
+
+  // Guides and grid lines pull each axis separately, so a point can sit on a crossing
+  const lines = (axis: 'x' | 'y') => {
+    const out: { position: number; kind: SnapKind }[] = [];
+    if (settings.guides) guides.filter(g => g.axis === axis).forEach(g => out.push({ position: g.position, kind: 'guide' }));
+    if (settings.grid) for (let i = 0; i <= settings.gridDivisions; i++) out.push({ position: i / settings.gridDivisions, kind: 'grid' });
+    return out;
+  };
+  const snapAxis = (value: number, axis: 'x' | 'y') => {
+    const size = axis === 'x' ? w : h;
+    let best: { position: number; kind: SnapKind } | null = null, bestDist = SNAP_RADIUS;
+    // Guides are listed first, so they win ties with grid lines
+    lines(axis).forEach(line => {
+      const d = Math.abs(value - line.position) * size;
+      if (d < bestDist) { best = line; bestDist = d; }
+    });
+    return best as { position: number; kind: SnapKind } | null;
+  };
+  const sx = snapAxis(p.x, 'x'), sy = snapAxis(p.y, 'y');
+  if (!sx && !sy) return null;
+  return {
+    point: { x: sx ? sx.position : p.x, y: sy ? sy.position : p.y },
+    kind: sx?.kind === 'guide' || sy?.kind === 'guide' ? 'guide' : 'grid'
+  };
+};
@@ -0,0 +1,160 @@
+import { Point, CalibrationPattern, CalibrationMap } from '../types';
+import { fitHomography, applyHomography } from './geometry';
+
+/**
+ * LumeMap Structured Light
+ * Gray-code stripe sequences for camera-assisted calibration. The projector
+ * shows white, black, then every column and row bit with its inverse; each
+ * camera pixel decodes which stage stripe lit it, giving a dense
+ * camera-to-stage map plus a perspective fit for the gaps.
+ */
+
+export const COLUMN_BITS = 8;
+export const ROW_BITS = 7;
+export const ANALYSIS_WIDTH = 320;
+
+// Pixels whose white/black difference is below this never saw the projector
+const MIN_CONTRAST = 24;
+const HOMOGRAPHY_SAMPLE_STEP = 6;
+const LOOKUP_RADIUS = 2;
+const SEARCH_RADIUS = 8;
+
+const bitsFor = (axis: 'x' | 'y') => axis === 'x' ? COLUMN_BITS : ROW_BITS;
+
+const grayCode = (n: number) => n ^ (n >> 1);
+
+const grayToBinary = (g: number) => {
+  let b = g;
+  for (let shift = g >> 1; shift; shift >>= 1) b ^= shift;
+  return b;
+};
+
+/** Frames in capture order: white, black, then each bit (most significant first) and its inverse, columns before rows. */
+export const calibrationSequence = (): CalibrationPattern[] => {
+  const sequence: CalibrationPattern[] = [{ kind: 'white' }, { kind: 'black' }];
+  (['x', 'y'] as const).forEach(axis => {
+    for (let bit = 0; bit < bitsFor(axis); bit++) {
+      sequence.push({ kind: 'gray', axis, bit, inverted: false }, { kind: 'gray', axis, bit, inverted: true });
+    }
+  });
+  return sequence;
+};
+
+export const describePattern = (pattern: CalibrationPattern) =>
+  pattern.kind === 'gray' ? `${pattern.axis === 'x' ? 'Column' : 'Row'} bit ${pattern.bit + 1}${pattern.inverted ? ' inverse' : ''}` : pattern.kind === 'white' ? 'White' : 'Black';
+
+/** Paints a pattern over a w x h stage (the caller applies any output-region transform). */
+export const drawPattern = (ctx: CanvasRenderingContext2D, pattern: CalibrationPattern, w: number, h: number) => {
+  ctx.fillStyle = pattern.kind === 'white' ? '#ffffff' : '#000000';
+  ctx.fillRect(0, 0, w, h);
+  if (pattern.kind !== 'gray') return;
+
+  const bits = bitsFor(pattern.axis);
+  const stripes = 1 << bits;
+  const size = pattern.axis === 'x' ? w : h;
+  ctx.fillStyle = '#ffffff';
+  for (let i = 0; i < stripes; i++) {
+    const lit = ((grayCode(i) >> (bits - 1 - pattern.bit)) & 1) === 1;
+    if (lit === pattern.inverted) continue;
+    // Whole-pixel edges so neighbouring stripes never leave a seam or overlap
+    const start = Math.floor(i / stripes * size);
+    const end = Math.floor((i + 1) / stripes * size);
+    if (pattern.axis === 'x') ctx.fillRect(start, 0, end - start, h);
+    else ctx.fillRect(0, start, w, end - start);
+  }
+};
+
+/** Scales a camera frame or image down to the analysis resolution and reads its luminance. */
+export const captureLuminance = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number) => {
+  const width = ANALYSIS_WIDTH;
+  const height = Math.max(1, Math.round(ANALYSIS_WIDTH * sourceHeight / sourceWidth));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(source, 0, 0, width, height);
+  const image = ctx.getImageData(0, 0, width, height);
+  const luminance = new Float32Array(width * height);
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2];
+  }
+  return { width, height, luminance, image };
+};
+
+export type CapturedFrame = ReturnType<typeof captureLuminance>;
+
+/**
+ * Decodes a captured sequence (one frame per calibrationSequence() entry, all
+ * the same size) into a camera-to-stage map. Throws when the frames do not
+ * match the sequence or the projector was not visible to the camera.
+ */
+export const solveCalibration = (frames: CapturedFrame[]): CalibrationMap => {
+  const expected = calibrationSequence().length;
+  if (frames.length !== expected) throw new Error(`Expected ${expected} frames, got ${frames.length}.`);
+  const { width, height } = frames[0];
+  if (frames.some(f => f.width !== width || f.height !== height)) throw new Error("All calibration frames must be the same size.");
+
+  const white = frames[0].luminance;
+  const black = frames[1].luminance;
+  const u = new Float32Array(width * height).fill(NaN);
+  const v = new Float32Array(width * height).fill(NaN);
+  // Frame pairs (bit, inverse) in calibrationSequence() order
+  const bitFrames = (axis: 'x' | 'y') => Array.from({ length: bitsFor(axis) }, (_, bit) => {
+    const index = 2 + 2 * ((axis === 'y' ? COLUMN_BITS : 0) + bit);
+    return { normal: frames[index].luminance, inverse: frames[index + 1].luminance };
+  });
+  const columns = bitFrames('x');
+  const rows = bitFrames('y');
+
+  const decode = (planes: typeof columns, i: number) => {
+    let gray = 0;
+    for (const { normal, inverse } of planes) gray = (gray << 1) | (normal[i] > inverse[i] ? 1 : 0);
+    return (grayToBinary(gray) + 0.5) / (1 << planes.length);
+  };
+
+  let decoded = 0;
+  for (let i = 0; i < width * height; i++) {
+    if (white[i] - black[i] < MIN_CONTRAST) continue;
+    u[i] = decode(columns, i);
+    v[i] = decode(rows, i);
+    decoded++;
+  }
+  if (decoded === 0) throw new Error("The camera did not see the projected patterns. Check that it faces the projection and the room is dark.");
+
+  // Perspective fit over a sparse sample of decoded pixels, in normalized camera space
+  const from: Point[] = [], to: Point[] = [];
+  for (let y = 0; y < height; y += HOMOGRAPHY_SAMPLE_STEP) {
+    for (let x = 0; x < width; x += HOMOGRAPHY_SAMPLE_STEP) {
+      const i = y * width + x;
+      if (Number.isNaN(u[i])) continue;
+      from.push({ x: (x + 0.5) / width, y: (y + 0.5) / height });
+      to.push({ x: u[i], y: v[i] });
+    }
+  }
+
+  return { width, height, u, v, homography: fitHomography(from, to), coverage: decoded / (width * height), reference: frames[0].image };
+};
+
+/**
+ * Converts a point on the camera image (normalized 0..1) to stage coordinates:
+ * the average of nearby decoded pixels, widening the search if needed, then
+ * the perspective fit. Null when the point cannot be placed.
+ */
+export const cameraToStage = (map: CalibrationMap, p: Point): Point | null => {
+  const cx = Math.floor(p.x * map.width);
+  const cy = Math.floor(p.y * map.height);
+  for (let radius = LOOKUP_RADIUS; radius <= SEARCH_RADIUS; radius *= 2) {
+    let sumU = 0, sumV = 0, count = 0;
+    for (let y = Math.max(0, cy - radius); y <= Math.min(map.height - 1, cy + radius); y++) {
+      for (let x = Math.max(0, cx - radius); x <= Math.min(map.width - 1, cx + radius); x++) {
+        const i = y * map.width + x;
+        if (Number.isNaN(map.u[i])) continue;
+        sumU += map.u[i];
+        sumV += map.v[i];
+        count++;
+      }
+    }
+    if (count > 0) return { x: sumU / count, y: sumV / count };
+  }
+  return map.homography ? applyHomography(map.homography, p.x, p.y) : null;
+};
@@ -0,0 +1,290 @@
+import { Point } from '../types';
+
+/**
+ * LumeMap Surface Detection
+ * Finds flat, edge-bounded regions (windows, panels, boards) in a camera
+ * frame: blur, Sobel edges with hysteresis, then every enclosed region is
+ * traced, simplified and, when it is close enough, fitted with a quad. Pure
+ * pixel math on a luminance buffer, so it runs offline in the browser.
+ */
+
+export interface LuminanceFrame {
+  width: number;
+  height: number;
+  luminance: Float32Array;
+}
+
+export interface SurfaceCandidate {
+  id: string;
+  outline: Point[]; // simplified contour, normalized frame coordinates
+  quad: Point[] | null; // best-fit quad (TL, TR, BR, BL) when the region is close to one
+  area: number; // fraction of the frame
+}
+
+// Regions smaller or larger than these fractions of the frame are noise or background
+const MIN_AREA = 0.002;
+const MAX_AREA = 0.6;
+// A region fills at least this much of its fitted quad to count as quad-like
+const QUAD_FILL = 0.85;
+const MAX_OUTLINE_POINTS = 16;
+const MAX_CANDIDATES = 24;
+// Gradient floor (Sobel magnitude on 0..255 luminance) so sensor noise on plain walls is never an edge
+const MIN_EDGE_STRENGTH = 48;
+// Regions stop where the (blurred, thickened) edge band starts; outlines grow back by this much, in pixels
+const EDGE_INSET = 4;
+
+// Moore neighbourhood in clockwise screen order, starting west
+const NEIGHBOURS: [number, number][] = [[-1, 0], [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1]];
+const neighbourIndex = (dx: number, dy: number) => NEIGHBOURS.findIndex(([x, y]) => x === dx && y === dy);
+
+const blur = (src: Float32Array, width: number, height: number) => {
+  const kernel = [1, 4, 6, 4, 1];
+  const pass = (input: Float32Array, horizontal: boolean) => {
+    const out = new Float32Array(input.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (let k = -2; k <= 2; k++) {
+          const sx = horizontal ? Math.min(width - 1, Math.max(0, x + k)) : x;
+          const sy = horizontal ? y : Math.min(height - 1, Math.max(0, y + k));
+          sum += input[sy * width + sx] * kernel[k + 2];
+        }
+        out[y * width + x] = sum / 16;
+      }
+    }
+    return out;
+  };
+  return pass(pass(src, true), false);
+};
+
+const sobel = (src: Float32Array, width: number, height: number) => {
+  const mag = new Float32Array(src.length);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = src[i - width + 1] + 2 * src[i + 1] + src[i + width + 1] - src[i - width - 1] - 2 * src[i - 1] - src[i + width - 1];
+      const gy = src[i + width - 1] + 2 * src[i + width] + src[i + width + 1] - src[i - width - 1] - 2 * src[i - width] - src[i - width + 1];
+      mag[i] = Math.hypot(gx, gy);
+    }
+  }
+  return mag;
+};
+
+/** Edge mask: strong gradients plus the weak ones connected to them, thickened to close small gaps. */
+const detectEdges = (mag: Float32Array, width: number, height: number, sensitivity: number) => {
+  const sorted = Float32Array.from(mag).sort();
+  const high = Math.max(MIN_EDGE_STRENGTH, sorted[Math.floor(sorted.length * (0.94 - 0.14 * sensitivity))]);
+  const low = high * 0.5;
+
+  const edges = new Uint8Array(mag.length);
+  const stack: number[] = [];
+  for (let i = 0; i < mag.length; i++) if (mag[i] >= high) { edges[i] = 1; stack.push(i); }
+  while (stack.length) {
+    const i = stack.pop()!;
+    const x = i % width, y = (i - x) / width;
+    for (const [dx, dy] of NEIGHBOURS) {
+      const nx = x + dx, ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const n = ny * width + nx;
+      if (!edges[n] && mag[n] >= low) { edges[n] = 1; stack.push(n); }
+    }
+  }
+
+  const dilated = new Uint8Array(edges);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!edges[y * width + x]) continue;
+      for (const [dx, dy] of NEIGHBOURS) {
+        const nx = x + dx, ny = y + dy;
+        if (nx >= 0 && ny >= 0 && nx < width && ny < height) dilated[ny * width + nx] = 1;
+      }
+    }
+  }
+  return dilated;
+};
+
+/** Labels 4-connected non-edge regions; returns labels plus per-region size and whether it touches the frame border. */
+const labelRegions = (edges: Uint8Array, width: number, height: number) => {
+  const labels = new Int32Array(edges.length).fill(-1);
+  const regions: { start: number; area: number; touchesBorder: boolean }[] = [];
+  const queue = new Int32Array(edges.length);
+  for (let seed = 0; seed < edges.length; seed++) {
+    if (edges[seed] || labels[seed] !== -1) continue;
+    const label = regions.length;
+    const region = { start: seed, area: 0, touchesBorder: false };
+    let head = 0, tail = 0;
+    queue[tail++] = seed;
+    labels[seed] = label;
+    while (head < tail) {
+      const i = queue[head++];
+      const x = i % width, y = (i - x) / width;
+      region.area++;
+      if (x === 0 || y === 0 || x === width - 1 || y === height - 1) region.touchesBorder = true;
+      const visit = (n: number) => { if (!edges[n] && labels[n] === -1) { labels[n] = label; queue[tail++] = n; } };
+      if (x > 0) visit(i - 1);
+      if (x < width - 1) visit(i + 1);
+      if (y > 0) visit(i - width);
+      if (y < height - 1) visit(i + width);
+    }
+    regions.push(region);
+  }
+  return { labels, regions };
+};
+
+/** Moore-neighbour boundary trace of one region, starting from its first pixel in raster order. */
+const traceContour = (labels: Int32Array, width: number, height: number, label: number, start: number): Point[] => {
+  const inside = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && labels[y * width + x] === label;
+  const sx = start % width, sy = (start - sx) / width;
+  const contour: Point[] = [{ x: sx, y: sy }];
+  let cx = sx, cy = sy;
+  let back = 0; // raster order guarantees the west neighbour is outside
+  const maxSteps = 4 * width * height;
+
+  for (let step = 0; step < maxSteps; step++) {
+    let found = -1;
+    for (let k = 1; k <= 8; k++) {
+      const d = (back + k) % 8;
+      if (inside(cx + NEIGHBOURS[d][0], cy + NEIGHBOURS[d][1])) { found = d; break; }
+    }
+    if (found === -1) break; // single-pixel region
+    const prev = NEIGHBOURS[(found + 7) % 8];
+    const nx = cx + NEIGHBOURS[found][0], ny = cy + NEIGHBOURS[found][1];
+    // The last outside pixel checked becomes the backtrack, seen from the new pixel
+    back = neighbourIndex(cx + prev[0] - nx, cy + prev[1] - ny);
+    cx = nx; cy = ny;
+    if (cx === sx && cy === sy && back === 0) break;
+    contour.push({ x: cx, y: cy });
+  }
+  return contour;
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const len = dx * dx + dy * dy;
+  const t = len ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const douglasPeucker = (points: Point[], epsilon: number): Point[] => {
+  if (points.length < 3) return points;
+  let index = 0, max = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], points[0], points[points.length - 1]);
+    if (d > max) { max = d; index = i; }
+  }
+  if (max <= epsilon) return [points[0], points[points.length - 1]];
+  const left = douglasPeucker(points.slice(0, index + 1), epsilon);
+  return [...left.slice(0, -1), ...douglasPeucker(points.slice(index), epsilon)];
+};
+
+/** Simplifies a closed contour by splitting it at the point farthest from its start. */
+const simplifyClosed = (contour: Point[], epsilon: number) => {
+  let far = 0, max = 0;
+  contour.forEach((p, i) => { const d = Math.hypot(p.x - contour[0].x, p.y - contour[0].y); if (d > max) { max = d; far = i; } });
+  const a = douglasPeucker(contour.slice(0, far + 1), epsilon);
+  const b = douglasPeucker([...contour.slice(far), contour[0]], epsilon);
+  return [...a.slice(0, -1), ...b.slice(0, -1)];
+};
+
+export const polygonArea = (points: Point[]) => {
+  let sum = 0;
+  points.forEach((p, i) => { const q = points[(i + 1) % points.length]; sum += p.x * q.y - q.x * p.y; });
+  return Math.abs(sum) / 2;
+};
+
+/** Moves every edge of a simple polygon outward by d, mitring the corners (capped for very sharp ones). */
+const offsetPolygon = (points: Point[], d: number) => {
+  let signed = 0;
+  points.forEach((p, i) => { const q = points[(i + 1) % points.length]; signed += p.x * q.y - q.x * p.y; });
+  const outward = signed > 0 ? 1 : -1;
+  const normal = (a: Point, b: Point) => {
+    const len = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    return { x: outward * (b.y - a.y) / len, y: outward * -(b.x - a.x) / len };
+  };
+  return points.map((p, i) => {
+    const n1 = normal(points[(i + points.length - 1) % points.length], p);
+    const n2 = normal(p, points[(i + 1) % points.length]);
+    const scale = d / Math.max(1 / 3, 1 + n1.x * n2.x + n1.y * n2.y);
+    return { x: p.x + (n1.x + n2.x) * scale, y: p.y + (n1.y + n2.y) * scale };
+  });
+};
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+const convexHull = (points: Point[]) => {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const build = (list: Point[]) => {
+    const hull: Point[] = [];
+    for (const p of list) {
+      while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], p) <= 0) hull.pop();
+      hull.push(p);
+    }
+    hull.pop();
+    return hull;
+  };
+  return [...build(sorted), ...build([...sorted].reverse())];
+};
+
+/** Shrinks the hull to four corners by repeatedly dropping the corner that loses the least area, ordered TL, TR, BR, BL. */
+const fitQuad = (hull: Point[]): Point[] | null => {
+  const quad = [...hull];
+  while (quad.length > 4) {
+    let drop = 0, least = Infinity;
+    quad.forEach((p, i) => {
+      const area = Math.abs(cross(quad[(i + quad.length - 1) % quad.length], p, quad[(i + 1) % quad.length]));
+      if (area < least) { least = area; drop = i; }
+    });
+    quad.splice(drop, 1);
+  }
+  if (quad.length < 4) return null;
+  const cx = quad.reduce((s, p) => s + p.x, 0) / 4, cy = quad.reduce((s, p) => s + p.y, 0) / 4;
+  const byAngle = quad.sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx));
+  // Angles run clockwise on screen from the left; start at the corner nearest the top-left
+  const first = byAngle.reduce((best, p, i) => (p.x + p.y < byAngle[best].x + byAngle[best].y ? i : best), 0);
+  return [...byAngle.slice(first), ...byAngle.slice(0, first)];
+};
+
+/**
+ * Proposes surfaces in a frame. Higher sensitivity (0..1) keeps fainter
+ * edges, splitting the image into more, smaller regions.
+ */
+export const detectSurfaces = (frame: LuminanceFrame, sensitivity = 0.5): SurfaceCandidate[] => {
+  const { width, height } = frame;
+  const edges = detectEdges(sobel(blur(frame.luminance, width, height), width, height), width, height, sensitivity);
+  const { labels, regions } = labelRegions(edges, width, height);
+  const total = width * height;
+  const normalize = (p: Point) => ({ x: (p.x + 0.5) / width, y: (p.y + 0.5) / height });
+
+  const candidates: SurfaceCandidate[] = [];
+  regions.forEach((region, label) => {
+    const area = region.area / total;
+    if (region.touchesBorder || area < MIN_AREA || area > MAX_AREA) return;
+    const contour = traceContour(labels, width, height, label, region.start);
+    if (contour.length < 8) return;
+
+    const perimeter = contour.length;
+    const outline = simplifyClosed(contour, Math.max(1.5, perimeter * 0.01));
+    if (outline.length < 3 || outline.length > MAX_OUTLINE_POINTS) return;
+
+    const quad = fitQuad(convexHull(contour));
+    const quadLike = quad && region.area / Math.max(1, polygonArea(quad)) >= QUAD_FILL;
+    candidates.push({
+      id: Math.random().toString(36).substr(2, 9),
+      outline: offsetPolygon(outline, EDGE_INSET).map(normalize),
+      quad: quadLike ? offsetPolygon(quad, EDGE_INSET).map(normalize) : null,
+      area,
+    });
+  });
+
+  return candidates.sort((a, b) => b.area - a.area).slice(0, MAX_CANDIDATES);
+};
+
+/**
+ * Maps a point on a camera frame shown object-cover over the stage (as the
+ * editor's camera overlay is) to stage coordinates.
+ */
+export const coverToStage = (p: Point, frameAspect: number, stageAspect: number): Point => {
+  const scaleX = frameAspect > stageAspect ? frameAspect / stageAspect : 1;
+  const scaleY = frameAspect > stageAspect ? 1 : stageAspect / frameAspect;
+  return { x: 0.5 + (p.x - 0.5) * scaleX, y: 0.5 + (p.y - 0.5) * scaleY };
+};
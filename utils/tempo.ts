@@ -0,0 +1,45 @@
+import { TempoClock, BeatDivision } from '../types';
+
+/**
+ * LumeMap Tempo Clock
+ * A shared BPM and downbeat anchor every window phase-locks to. Synced
+ * effects cycle once per beat division, counted in bars from the anchor, so
+ * all surfaces land on the same beat no matter when they were switched on.
+ */
+
+export const DEFAULT_TEMPO: TempoClock = { bpm: 120, beatsPerBar: 4, anchor: 0 };
+
+export const BEAT_DIVISIONS: BeatDivision[] = [0.25, 0.5, 1, 2];
+
+export const MIN_BPM = 40;
+export const MAX_BPM = 240;
+
+// Taps further apart than this start a new count
+const TAP_RESET_MS = 2000;
+const TAP_WINDOW = 8;
+
+export const clampBpm = (bpm: number) => Math.max(MIN_BPM, Math.min(MAX_BPM, bpm));
+
+export const beatLength = (tempo: TempoClock) => 60000 / tempo.bpm;
+
+export const divisionLength = (tempo: TempoClock, division: BeatDivision) => beatLength(tempo) * tempo.beatsPerBar * division;
+
+/** Position within the current division cycle, 0 on the (down)beat rising to 1. */
+export const beatPhase = (tempo: TempoClock, division: BeatDivision, now = Date.now()) => {
+  const length = divisionLength(tempo, division);
+  return (((now - tempo.anchor) % length) + length) % length / length;
+};
+
+export const formatDivision = (division: BeatDivision) => division < 1 ? `1/${1 / division}` : `${division}`;
+
+/**
+ * Adds a tap and returns the updated tap list with the tempo it implies:
+ * the average interval of the recent taps, or null until there are two.
+ */
+export const registerTap = (taps: number[], now = Date.now()) => {
+  const recent = taps.length > 0 && now - taps[taps.length - 1] > TAP_RESET_MS ? [] : taps;
+  const next = [...recent, now].slice(-TAP_WINDOW);
+  if (next.length < 2) return { taps: next, bpm: null };
+  const interval = (next[next.length - 1] - next[0]) / (next.length - 1);
+  return { taps: next, bpm: clampBpm(Math.round(60000 / interval * 10) / 10) };
+};
@@ -0,0 +1,111 @@
+import { Shape, Cue, CueLook, Transport } from '../types';
+import { mixColor } from './color';
+
+/**
+ * LumeMap Show Timeline
+ * Cues track: a surface keeps the look of the last cue that touched it until
+ * a later cue changes it. Each cue crossfades in from the look before it over
+ * its fade time. The show position is derived from the transport anchor, so
+ * every window evaluating the same transport renders the same frame.
+ */
+
+// --- TRANSPORT ---
+
+export const transportPosition = (transport: Transport, now = Date.now()) =>
+  transport.playing ? transport.position + (now - transport.anchor) / 1000 : transport.position;
+
+export const startTransport = (position = 0, now = Date.now()): Transport => ({ playing: true, position, anchor: now });
+
+export const pauseTransport = (transport: Transport, now = Date.now()): Transport =>
+  ({ playing: false, position: transportPosition(transport, now), anchor: now });
+
+export const resumeTransport = (transport: Transport, now = Date.now()): Transport =>
+  ({ playing: true, position: transport.position, anchor: now });
+
+export const seekTransport = (transport: Transport, position: number, now = Date.now()): Transport =>
+  ({ ...transport, position: Math.max(0, position), anchor: now });
+
+/** Plays from the top when stopped, otherwise pauses or resumes in place. */
+export const togglePlayback = (transport: Transport | null, now = Date.now()): Transport =>
+  !transport ? startTransport(0, now)
+    : transport.playing ? pauseTransport(transport, now)
+    : resumeTransport(transport, now);
+
+/** Jumps to the next cue's start, starting the show if it is stopped; past the last cue nothing moves. */
+export const goToNextCue = (cues: Cue[], transport: Transport | null, now = Date.now()): Transport => {
+  const current = transport ?? startTransport(0, now);
+  const next = nextCueTime(cues, transport ? transportPosition(transport, now) : -1);
+  return next === null ? current : seekTransport(current, next, now);
+};
+
+export const sortCues = (cues: Cue[]) => [...cues].sort((a, b) => a.time - b.time);
+
+/** Index of the cue in effect at the given position, or -1 before the first cue. */
+export const activeCueIndex = (cues: Cue[], position: number) => {
+  let index = -1;
+  sortCues(cues).forEach((cue, i) => { if (cue.time <= position) index = i; });
+  return index;
+};
+
+/** Start time of the first cue after the current one, or null at the end of the list. */
+export const nextCueTime = (cues: Cue[], position: number) => {
+  const next = sortCues(cues)[activeCueIndex(cues, position) + 1];
+  return next ? next.time : null;
+};
+
+// --- LOOKS ---
+
+export const captureLook = (shape: Shape): CueLook => ({
+  visible: shape.visible,
+  color: shape.style.color,
+  opacity: shape.style.opacity,
+  effect: shape.style.effect,
+  effectSpeed: shape.style.effectSpeed,
+  fillType: shape.style.fillType,
+});
+
+export const captureLooks = (shapes: Shape[]) =>
+  Object.fromEntries(shapes.map(s => [s.id, captureLook(s)])) as Record<string, CueLook>;
+
+const applyLook = (shape: Shape, look: CueLook | undefined): Shape => {
+  if (!look) return shape;
+  const { visible, ...style } = look;
+  return { ...shape, visible: visible ?? shape.visible, style: { ...shape.style, ...style } };
+};
+
+const crossfade = (from: Shape, to: Shape, t: number): Shape => {
+  // Hidden surfaces fade through zero opacity rather than popping
+  const fromOpacity = from.visible ? from.style.opacity : 0;
+  const toOpacity = to.visible ? to.style.opacity : 0;
+  const discrete = t < 0.5 ? from.style : to.style;
+  return {
+    ...to,
+    visible: from.visible || to.visible,
+    style: {
+      ...to.style,
+      color: mixColor(from.style.color, to.style.color, t),
+      opacity: fromOpacity + (toOpacity - fromOpacity) * t,
+      effectSpeed: from.style.effectSpeed + (to.style.effectSpeed - from.style.effectSpeed) * t,
+      effect: discrete.effect,
+      fillType: discrete.fillType,
+    }
+  };
+};
+
+/** The shapes as the cue list shows them at the given show position (seconds). */
+export const evaluateCues = (shapes: Shape[], cues: Cue[], position: number): Shape[] => {
+  const sorted = sortCues(cues);
+  const active = activeCueIndex(sorted, position);
+  if (active === -1) return shapes;
+
+  const tracked = (upTo: number) => shapes.map(shape =>
+    sorted.slice(0, upTo + 1).reduce((s, cue) => applyLook(s, cue.looks[shape.id]), shape));
+
+  const cue = sorted[active];
+  const target = tracked(active);
+  const progress = cue.fade > 0 ? (position - cue.time) / cue.fade : 1;
+  if (progress >= 1) return target;
+
+  const previous = tracked(active - 1);
+  return target.map((shape, i) => cue.looks[shape.id] ? crossfade(previous[i], shape, progress) : shape);
+};